@@ -1,296 +1,851 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import chroma from 'chroma-js';
+import {
+  APCA_FONT_WEIGHTS,
+  CONTRAST_ALGORITHMS,
+  ContrastAlgorithm,
+  ContrastAlgorithmId,
+  ContrastLevel,
+  compositeOver,
+  getContrastLevel,
+  hasAlpha,
+  isContrastAlgorithmId,
+} from './contrast';
+import {
+  CustomLevels,
+  DEFAULT_CUSTOM_LEVELS,
+  TARGET_IDS,
+  TargetId,
+  getTargetProfile,
+  isTargetId,
+  resolveTargetId,
+  sortLevels,
+} from './targets';
+import { SuggestionTarget, findPassingColor } from './suggest';
+import { ImportedToken } from './tokens';
+import { ContrastMatrix, EXPORT_FORMATS, ExportFormat, buildContrastMatrix, cleanLabel, downloadFile, exportMatrix } from './export';
+import { DEFAULT_MODE, TOKEN_EXPORT_FORMATS, TokenExportFormat, exportTokens } from './tokenExport';
+import ImageDialog from './ImageDialog';
+import ImportDialog from './ImportDialog';
+import PairList from './PairList';
+import ScaleDialog, { ScalePlacement } from './ScaleDialog';
+import SelectionBar from './SelectionBar';
+import ThemeCompare from './ThemeCompare';
+import { MAX_SHARE_LENGTH, SharedGrid, ShareResult, decodeGrid, encodeGrid, hasSharedGrid } from './share';
+import { ColorEntry, ColorPair } from './types';
+import { LineError, getLevelLabel, getLineErrors, measureContrastRange, parseColorInput } from './core';
+import { isValidColor } from './cssColor';
+import { isGradient, isValidBackground, mapColorValue } from './gradient';
+import { StoredGrid, Workspace, createGrid, loadWorkspace, saveWorkspace } from './storage';
+import { GridState, clearHistory, useGridHistory } from './useGridHistory';
+import { useGridWindow } from './useGridWindow';
+import { getSwatchBackground } from './colorSpaces';
+import ColorPicker, { PairedColor } from './ColorPicker';
+import { followEntries, remapPairs } from './pairs';
+import { coversRows, linkGrid, transposeGrid, unlinkGrid } from './axes';
+import {
+  BulkAdjustment,
+  DEFAULT_DUPLICATE_THRESHOLD,
+  DuplicateGroup,
+  adjustColor,
+  findDuplicates,
+  keepUnchanged,
+  reconcileEntries,
+} from './entries';
+import {
+  addTheme,
+  hasThemes,
+  nextThemeName,
+  removeTheme,
+  renameTheme,
+  resolveEntries,
+  storeEntries,
+} from './themes';
+import {
+  CVD_TYPES,
+  CvdSettings,
+  CvdType,
+  DEFAULT_CVD_SETTINGS,
+  createEntrySimulator,
+  sanitizeCvdSettings,
+  simulateCvd,
+} from './cvd';
+import {
+  CellFilter,
+  DEFAULT_GRID_VIEW,
+  GridViewSettings,
+  SORT_ORDERS,
+  SortOrder,
+  applyGridView,
+  getGridView,
+  isCellFilter,
+  matchesFilter,
+  sanitizeGridView,
+  summarizeGrid,
+} from './gridView';
+import {
+  DEFAULT_TEXT_PREVIEW,
+  MAX_TEXT_SAMPLES,
+  TextPreviewSettings,
+  evaluateSample,
+  sanitizeTextPreview,
+} from './typography';
 
-interface ColorEntry {
-  color: string;
-  label?: string;
-}
+const ALGORITHM_STORAGE_KEY = 'contrast-algorithm';
+const TARGET_STORAGE_KEY = 'contrast-target';
+const SURFACE_STORAGE_KEY = 'contrast-surface';
+const CVD_STORAGE_KEY = 'contrast-cvd';
+const TEXT_PREVIEW_STORAGE_KEY = 'contrast-text-preview';
+const GRID_VIEW_STORAGE_KEY = 'contrast-grid-view';
+const VIEW_MODE_STORAGE_KEY = 'contrast-view-mode';
+const THEME_STORAGE_KEY = 'contrast-theme';
+const DUPLICATE_THRESHOLD_STORAGE_KEY = 'contrast-duplicate-threshold';
 
-interface ColorPickerProps {
-  color: string;
-  onChange: (newColor: string) => void;
-  onClose: () => void;
-  triggerRect?: DOMRect;
-}
+type ViewMode = 'matrix' | 'pairs' | 'compare';
 
-interface HSL {
-  h: number;
-  s: number;
-  l: number;
-}
-
-interface RGB {
-  r: number;
-  g: number;
-  b: number;
-}
+const VIEW_MODES: { value: ViewMode; label: string }[] = [
+  { value: 'matrix', label: 'Matrix' },
+  { value: 'pairs', label: 'Pairs' },
+  { value: 'compare', label: 'Compare themes' },
+];
 
-type ColorMode = 'hsl' | 'rgb';
+// Page surfaces that translucent backgrounds are composited over
+const SURFACES = [
+  { label: 'White', color: '#FFFFFF' },
+  { label: 'Black', color: '#000000' },
+];
 
-const STORAGE_KEY = 'contrast-grid-colors';
+// Shared grids open as a new entry so they never overwrite a saved one
+const createSharedGrid = (grid: SharedGrid): StoredGrid => ({
+  ...createGrid('Shared grid', grid.fg, grid.bg),
+  pairs: grid.pairs,
+  themes: grid.themes,
+  linked: grid.linked,
+});
 
-const getContrastLabel = (ratio: number): JSX.Element | string => {
-  if (ratio >= 7) return <span className="bg-emerald-400 text-emerald-900 p-1 px-2 rounded-sm font-bold">✓ AAA</span>;
-  if (ratio >= 4.5) return <span className="bg-emerald-400 text-emerald-900 p-1 px-2 rounded-sm font-bold">✓ AA</span>;
-  return <span className="p-1 rounded-sm font-bold">✕ Failed</span>;
+const getContrastLabel = (value: number, levels: ContrastLevel[]): JSX.Element | string => {
+  const label = getLevelLabel(value, levels);
+  if (getContrastLevel(levels, value)) return <span className="bg-emerald-400 text-emerald-900 p-1 px-2 rounded-sm font-bold">✓ {label}</span>;
+  return <span className="p-1 rounded-sm font-bold">✕ {label}</span>;
 };
 
-const parseColorInput = (input: string): ColorEntry => {
-  // Find hex/color part while preserving original format
-  const firstCommaIndex = input.indexOf(',');
-  const firstSpaceIndex = input.indexOf(' ');
-
-  // Determine where the color part ends
-  let colorEndIndex = -1;
-  if (firstCommaIndex !== -1 && firstSpaceIndex !== -1) {
-    colorEndIndex = Math.min(firstCommaIndex, firstSpaceIndex);
-  } else if (firstCommaIndex !== -1) {
-    colorEndIndex = firstCommaIndex;
-  } else if (firstSpaceIndex !== -1) {
-    colorEndIndex = firstSpaceIndex;
-  }
-
-  if (colorEndIndex === -1) return { color: input };
+const ColorSwatch: React.FC<{
+  color: string;
+  label: string;
+  isOpen: boolean;
+  onClick: () => void;
+  onKeyDown: (e: React.KeyboardEvent<HTMLButtonElement>) => void;
+  dataIndex: string;
+}> = ({ color, label, isOpen, onClick, onKeyDown, dataIndex }) => (
+  <button
+    type="button"
+    className="w-6 h-6 rounded border border-gray-200 shadow-sm cursor-pointer hover:ring-2 hover:ring-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500 transition-all"
+    style={{ background: getSwatchBackground(color) }}
+    onClick={onClick}
+    onKeyDown={onKeyDown}
+    aria-label={label}
+    aria-haspopup="dialog"
+    aria-expanded={isOpen}
+    data-color-index={dataIndex}
+  />
+);
 
-  const colorPart = input.substring(0, colorEndIndex);
-  const labelPart = input.substring(colorEndIndex);
+// Moves focus after React has rendered the element it points to
+const focusElement = (selector: string) => {
+  requestAnimationFrame(() => document.querySelector<HTMLElement>(selector)?.focus());
+};
 
-  const color = /^[0-9A-Fa-f]{6}$/.test(colorPart) ? `#${colorPart}` : colorPart;
+const TargetSelect: React.FC<{
+  value?: TargetId;
+  onChange: (target?: TargetId) => void;
+}> = ({ value, onChange }) => (
+  <select
+    className="text-xs bg-transparent text-slate-500 dark:text-slate-400 border border-slate-200 dark:border-slate-600 rounded px-1"
+    value={value ?? ''}
+    onChange={(e) => onChange(isTargetId(e.target.value) ? e.target.value : undefined)}
+    title="Target override"
+  >
+    <option value="">Default target</option>
+    {TARGET_IDS.map(id => (
+      <option key={id} value={id}>
+        {getTargetProfile(id, DEFAULT_CUSTOM_LEVELS).name}
+      </option>
+    ))}
+  </select>
+);
 
-  return {
-    color,
-    label: labelPart || undefined
+const CustomLevelsEditor: React.FC<{
+  levels: ContrastLevel[];
+  unit: string;
+  onChange: (levels: ContrastLevel[]) => void;
+}> = ({ levels, unit, onChange }) => {
+  const updateLevel = (index: number, label: string, min: number) => {
+    const newLevels = levels.map((level, i) =>
+      i === index ? { label, min, description: `${unit} ≥ ${min}` } : level
+    );
+    onChange(newLevels);
   };
-};
 
-const hexToHsl = (hex: string): HSL => {
-  const [h, s, l] = chroma(hex).hsl();
-  return {
-    h: Math.round(h || 0),
-    s: Math.round((s || 0) * 100),
-    l: Math.round((l || 0) * 100)
-  };
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-slate-700 dark:text-slate-200">
+        Custom thresholds
+      </h4>
+      {levels.map((level, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            className="w-32 px-2 py-1 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded"
+            value={level.label}
+            onChange={(e) => updateLevel(index, e.target.value, level.min)}
+            aria-label="Threshold label"
+          />
+          <span className="text-sm text-slate-500 dark:text-slate-400">{unit} ≥</span>
+          <input
+            type="number"
+            step="0.1"
+            min={0}
+            className="w-20 px-2 py-1 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded"
+            value={level.min}
+            onChange={(e) => updateLevel(index, level.label, Number(e.target.value))}
+            onBlur={() => onChange(sortLevels(levels))}
+            aria-label="Threshold minimum"
+          />
+          <button
+            className="text-sm text-red-600 dark:text-red-500 hover:underline"
+            onClick={() => onChange(levels.filter((_, i) => i !== index))}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <button
+        className="text-sm text-slate-600 dark:text-slate-300 underline hover:text-slate-900 dark:hover:text-slate-200"
+        onClick={() => onChange([...levels, { label: 'Custom', min: 0, description: `${unit} ≥ 0` }])}
+      >
+        Add threshold
+      </button>
+    </div>
+  );
 };
 
-const hslToHex = (hsl: HSL): string => {
-  return chroma.hsl(hsl.h, hsl.s / 100, hsl.l / 100).hex();
-};
+const TextPreviewEditor: React.FC<{
+  settings: TextPreviewSettings;
+  onChange: (settings: TextPreviewSettings) => void;
+}> = ({ settings, onChange }) => {
+  const updateSample = (index: number, size: number, weight: number) => {
+    onChange({
+      ...settings,
+      samples: settings.samples.map((sample, i) => (i === index ? { size, weight } : sample)),
+    });
+  };
 
-const hexToRgb = (hex: string): RGB => {
-  const [r, g, b] = chroma(hex).rgb();
-  return { r, g, b };
+  return (
+    <div className="space-y-2">
+      <input
+        className="w-full px-2 py-1 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded"
+        value={settings.text}
+        onChange={(e) => onChange({ ...settings, text: e.target.value })}
+        aria-label="Sample text"
+      />
+      {settings.samples.map((sample, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="number"
+            min={6}
+            max={96}
+            className="w-16 px-2 py-1 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded"
+            value={sample.size}
+            onChange={(e) => updateSample(index, Number(e.target.value), sample.weight)}
+            aria-label="Font size in pixels"
+          />
+          <span className="text-sm text-slate-500 dark:text-slate-400">px</span>
+          <select
+            className="px-2 py-1 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded"
+            value={sample.weight}
+            onChange={(e) => updateSample(index, sample.size, Number(e.target.value))}
+            aria-label="Font weight"
+          >
+            {APCA_FONT_WEIGHTS.map(weight => (
+              <option key={weight} value={weight}>{weight}</option>
+            ))}
+          </select>
+          <button
+            className="text-sm text-red-600 dark:text-red-500 hover:underline"
+            onClick={() => onChange({ ...settings, samples: settings.samples.filter((_, i) => i !== index) })}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      {settings.samples.length < MAX_TEXT_SAMPLES && (
+        <button
+          className="text-sm text-slate-600 dark:text-slate-300 underline hover:text-slate-900 dark:hover:text-slate-200"
+          onClick={() => onChange({ ...settings, samples: [...settings.samples, { size: 16, weight: 400 }] })}
+        >
+          Add sample
+        </button>
+      )}
+    </div>
+  );
 };
 
-const rgbToHex = (rgb: RGB): string => {
-  return chroma(rgb.r, rgb.g, rgb.b).hex();
-};
+interface Suggestion {
+  row: number;
+  column: number;
+  adjust: SuggestionTarget;
+  // Null when no color along the lightness axis meets the target
+  color: string | null;
+}
 
-const ColorSlider: React.FC<{
-  label: string;
-  value: number;
-  min: number;
-  max: number;
-  onChange: (value: number) => void;
-}> = ({ label, value, min, max, onChange }) => (
-  <div className="space-y-1">
-    <div className="flex justify-between">
-      <label className="text-sm font-medium text-gray-700 dark:text-gray-200">{label}</label>
-      <span className="text-sm text-gray-500">{value}</span>
+const SuggestionControls: React.FC<{
+  suggestion: Suggestion;
+  onApply: () => void;
+  // Unset when only the text can change, e.g. on a gradient background
+  onSwitch?: () => void;
+  onCancel: () => void;
+}> = ({ suggestion, onApply, onSwitch, onCancel }) => (
+  <div className="flex flex-col items-center gap-1 mt-2 text-xs">
+    <span className="font-mono">
+      {suggestion.color
+        ? `${suggestion.adjust === 'foreground' ? 'Text' : 'Background'} → ${suggestion.color.toUpperCase()}`
+        : `No passing ${suggestion.adjust} found`}
+    </span>
+    <div className="flex gap-1">
+      {suggestion.color && (
+        <button className="px-2 py-0.5 rounded border border-current font-bold" onClick={onApply}>
+          Apply
+        </button>
+      )}
+      {onSwitch && (
+        <button className="px-2 py-0.5 rounded border border-current" onClick={onSwitch}>
+          Adjust {suggestion.adjust === 'foreground' ? 'background' : 'text'}
+        </button>
+      )}
+      <button className="px-2 py-0.5 rounded border border-current" onClick={onCancel}>
+        Cancel
+      </button>
     </div>
-    <input
-      type="range"
-      min={min}
-      max={max}
-      value={value}
-      onChange={(e) => onChange(Number(e.target.value))}
-      className="w-full"
-    />
   </div>
 );
 
-const ColorPicker: React.FC<ColorPickerProps> = ({ color, onChange, onClose, triggerRect }) => {
-  const [hsl, setHsl] = useState<HSL>(hexToHsl(color));
-  const [rgb, setRgb] = useState<RGB>(hexToRgb(color));
-  const [mode, setMode] = useState<ColorMode>('hsl');
+// Dismissible warning above the grid, e.g. when saved data or a shared link cannot be read
+const Notice: React.FC<{ message: string; onDismiss: () => void }> = ({ message, onDismiss }) => (
+  <div className="flex items-center justify-between gap-4 max-w-2xl mx-auto px-4 py-3 text-sm text-amber-900 bg-amber-100 dark:text-amber-100 dark:bg-amber-900 rounded-lg">
+    <span>{message}</span>
+    <button onClick={onDismiss} className="font-bold" aria-label="Dismiss">
+      ✕
+    </button>
+  </div>
+);
 
-  const position = {
-    x: triggerRect ? Math.max(0, triggerRect.left + (triggerRect.width / 2) - 140) : 100,
-    y: triggerRect ? Math.max(0, triggerRect.top - 395) : 100
-  };
+// Shown under a color textarea; the ids tie it to the textarea for screen readers
+const LineErrorList: React.FC<{ id: string; errors: LineError[] }> = ({ id, errors }) => (
+  <ul id={id} className="mt-2 space-y-0.5 text-xs text-red-600 dark:text-red-400" aria-live="polite">
+    {errors.map(error => (
+      <li key={error.line}>
+        <span className="font-mono">Line {error.line}:</span> {error.message}
+      </li>
+    ))}
+  </ul>
+);
 
-  const updateHsl = (newHsl: HSL) => {
-    setHsl(newHsl);
-    try {
-      const newHex = hslToHex(newHsl);
-      setRgb(hexToRgb(newHex));
-      onChange(newHex);
-    } catch (e) {
-      console.error('Invalid color:', e);
-    }
-  };
+// Shown under a color textarea; each group merges into its first entry
+const DuplicateList: React.FC<{
+  groups: DuplicateGroup[];
+  entries: ColorEntry[];
+  onMerge: (group: DuplicateGroup) => void;
+}> = ({ groups, entries, onMerge }) => (
+  <ul className="mt-2 space-y-1 text-xs text-amber-700 dark:text-amber-400">
+    {groups.map(group => {
+      const names = group.indices.map(index => cleanLabel(entries[index]) || entries[index].color);
+      return (
+        <li key={entries[group.indices[0]].id ?? group.indices[0]} className="flex items-baseline justify-between gap-2">
+          <span>
+            {group.distance === 0 ? 'Duplicates' : `Near-duplicates (ΔE ${group.distance.toFixed(1)})`}
+            {': '}
+            {group.indices.map((index, i) => `${names[i]} (line ${index + 1})`).join(', ')}
+          </span>
+          <button
+            className="shrink-0 underline hover:text-amber-900 dark:hover:text-amber-200"
+            onClick={() => onMerge(group)}
+          >
+            Merge into {names[0]}
+          </button>
+        </li>
+      );
+    })}
+  </ul>
+);
 
-  const updateRgb = (newRgb: RGB) => {
-    setRgb(newRgb);
-    try {
-      const newHex = rgbToHex(newRgb);
-      setHsl(hexToHsl(newHex));
-      onChange(newHex);
-    } catch (e) {
-      console.error('Invalid color:', e);
-    }
-  };
+const ContrastCell: React.FC<{
+  foreground: string;
+  background: string;
+  algorithm: ContrastAlgorithm;
+  levels: ContrastLevel[];
+  surface: string;
+  isValid: boolean;
+  // Names the pair for screen readers, e.g. "Text on Surface"
+  description: string;
+  // Sample text rendered in the cell, each graded for its own size and weight
+  preview?: TextPreviewSettings;
+  onSuggest?: () => void;
+}> = ({ foreground, background, algorithm, levels, surface, isValid, description, preview, onSuggest }) => {
+  // On a gradient, the worst case anywhere on the background
+  const effective = isValid ? measureContrastRange(foreground, background, algorithm, surface) : null;
+  const value = effective?.value ?? 0;
+  const average = effective?.average;
+  const hint = effective ? algorithm.describe?.(value) : undefined;
+  const isBlended = isValid && (hasAlpha(foreground) || hasAlpha(background) || average !== undefined);
+  const isFailing = isValid && levels.length > 0 && !getContrastLevel(levels, value);
+  const summary = isValid
+    ? `${description}: ${average !== undefined ? 'worst case ' : ''}${algorithm.format(value)}, ${getLevelLabel(value, levels)}${
+      average !== undefined ? `, average ${algorithm.format(average)}` : ''
+    }`
+    : `${description}: invalid color`;
 
   return (
-    <div className="fixed inset-0 z-50" onClick={onClose}>
-      <div
-        className="absolute bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-[280px] border border-gray-200 dark:border-gray-700"
-        style={{
-          left: position.x,
-          top: position.y,
-        }}
-        onClick={e => e.stopPropagation()}
-      >
-        <div className="p-4">
-          <div className="mb-4 h-16 rounded-lg shadow-inner" style={{ backgroundColor: color }} />
-          <div className="flex justify-center mb-4">
-            <div className="inline-flex rounded-lg border border-gray-200 dark:border-gray-700">
-              <button
-                className={`px-3 py-1 text-sm rounded-l-lg ${
-                  mode === 'hsl'
-                    ? 'bg-slate-600 text-white'
-                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
-                }`}
-                onClick={() => setMode('hsl')}
-              >
-                HSL
-              </button>
-              <button
-                className={`px-3 py-1 text-sm rounded-r-lg ${
-                  mode === 'rgb'
-                    ? 'bg-primary-500 text-white'
-                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
-                }`}
-                onClick={() => setMode('rgb')}
-              >
-                RGB
-              </button>
-            </div>
-          </div>
-
-          <div className="space-y-3">
-            {mode === 'hsl' ? (
-              <>
-                <ColorSlider
-                  label="Hue"
-                  value={hsl.h}
-                  min={0}
-                  max={360}
-                  onChange={(h) => updateHsl({ ...hsl, h })}
-                />
-                <ColorSlider
-                  label="Saturation"
-                  value={hsl.s}
-                  min={0}
-                  max={100}
-                  onChange={(s) => updateHsl({ ...hsl, s })}
-                />
-                <ColorSlider
-                  label="Lightness"
-                  value={hsl.l}
-                  min={0}
-                  max={100}
-                  onChange={(l) => updateHsl({ ...hsl, l })}
-                />
-              </>
-            ) : (
-              <>
-                <ColorSlider
-                  label="Red"
-                  value={rgb.r}
-                  min={0}
-                  max={255}
-                  onChange={(r) => updateRgb({ ...rgb, r })}
-                />
-                <ColorSlider
-                  label="Green"
-                  value={rgb.g}
-                  min={0}
-                  max={255}
-                  onChange={(g) => updateRgb({ ...rgb, g })}
-                />
-                <ColorSlider
-                  label="Blue"
-                  value={rgb.b}
-                  min={0}
-                  max={255}
-                  onChange={(b) => updateRgb({ ...rgb, b })}
-                />
-              </>
-            )}
-          </div>
-
-          <div className="mt-3 space-y-1 text-xs text-gray-500 dark:text-gray-400">
-            <div>HSL: {hsl.h}°, {hsl.s}%, {hsl.l}%</div>
-            <div>RGB: {rgb.r}, {rgb.g}, {rgb.b}</div>
-            <div>HEX: {color.toUpperCase()}</div>
-          </div>
-        </div>
+    <div className="flex flex-col items-center justify-center h-full">
+      <span className="sr-only">{summary}</span>
+      <span className="text-lg font-bold" aria-hidden="true">
+        {isValid ? algorithm.format(value) : '—'}
+      </span>
+      <div className="text-xs mt-1" aria-hidden="true">
+        {isValid ? getContrastLabel(value, levels) : 'Invalid color'}
       </div>
+      {average !== undefined && (
+        <span className="text-xs mt-2 opacity-80" aria-hidden="true" title="Worst case shown above, average along the gradient">
+          avg {algorithm.format(average)}
+        </span>
+      )}
+      {hint && (
+        <span className="text-xs mt-2 opacity-80">
+          {hint}
+        </span>
+      )}
+      {preview?.enabled && isValid && preview.samples.length > 0 && (
+        <ul className="mt-2 space-y-1 w-full">
+          {preview.samples.map((sample, index) => {
+            const result = evaluateSample(sample, value, algorithm.id);
+            return (
+              <li key={index} className="flex items-baseline justify-between gap-2">
+                <span
+                  className="truncate"
+                  style={{ fontSize: sample.size, fontWeight: sample.weight, lineHeight: 1.2 }}
+                >
+                  {preview.text}
+                </span>
+                <span
+                  className={`shrink-0 text-[10px] px-1 rounded border border-current ${result.passes ? '' : 'line-through opacity-70'}`}
+                  title={`${sample.size}px / ${sample.weight}`}
+                >
+                  {result.label}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {effective && isBlended && (
+        <span
+          className="text-xs mt-1 opacity-80 font-mono"
+          title={average !== undefined ? 'Effective colors where the contrast is lowest' : 'Effective colors after blending'}
+        >
+          {effective.foreground.toUpperCase()} on {effective.background.toUpperCase()}
+        </span>
+      )}
+      {isFailing && onSuggest && (
+        <button
+          className="text-xs mt-2 px-2 py-0.5 rounded border border-current opacity-80 hover:opacity-100"
+          onClick={onSuggest}
+        >
+          Suggest fix
+        </button>
+      )}
     </div>
   );
 };
 
-const ColorSwatch: React.FC<{ color: string; onClick: () => void; dataIndex: string }> = ({ color, onClick, dataIndex }) => (
-  <div
-    className="w-6 h-6 rounded border border-gray-200 shadow-sm cursor-pointer hover:ring-2 hover:ring-primary-500 transition-all"
-    style={{ backgroundColor: color }}
-    onClick={onClick}
-    data-color-index={dataIndex}
-  />
-);
+interface GridCellActions {
+  // Positions in the displayed grid
+  onFocus: (row: number, column: number) => void;
+  onKeyDown: (e: React.KeyboardEvent, row: number, column: number) => void;
+  // List indices
+  onSuggest: (row: number, column: number, adjust: SuggestionTarget) => void;
+  onApplySuggestion: () => void;
+  onCancelSuggestion: () => void;
+}
+
+interface GridCellProps {
+  // List indices of the background (row) and foreground (column)
+  row: number;
+  column: number;
+  // Positions in the displayed grid, after sorting and hiding
+  rowPosition: number;
+  columnPosition: number;
+  foreground: string;
+  background: string;
+  description: string;
+  levels: ContrastLevel[];
+  algorithm: ContrastAlgorithm;
+  surface: string;
+  simulate: (color: string) => string;
+  // Whether contrast is computed on the simulated colors
+  recompute: boolean;
+  preview: TextPreviewSettings;
+  // A color against itself in a linked grid, shown faded
+  isDiagonal: boolean;
+  isTabbable: boolean;
+  isFilteredOut: boolean;
+  // The open suggestion, only passed to its own cell
+  suggestion: Suggestion | null;
+  actions: GridCellActions;
+}
+
+/**
+ * One matrix cell. Memoized on plain props, so dragging a slider re-renders
+ * only the cells in the edited row or column.
+ */
+const GridCell = React.memo(({
+  row, column, rowPosition, columnPosition, foreground, background, description, levels, algorithm,
+  surface, simulate, recompute, preview, isDiagonal, isTabbable, isFilteredOut, suggestion, actions,
+}: GridCellProps) => {
+  const cellProps = {
+    role: 'gridcell',
+    tabIndex: isTabbable ? 0 : -1,
+    'aria-colindex': columnPosition + 2,
+    'data-cell': `${row}-${column}`,
+    onFocus: () => actions.onFocus(rowPosition, columnPosition),
+    onKeyDown: (e: React.KeyboardEvent) => actions.onKeyDown(e, rowPosition, columnPosition),
+  };
+
+  if (isFilteredOut) {
+    return (
+      <td
+        {...cellProps}
+        className="border border-slate-200 dark:border-slate-700 bg-slate-100 dark:bg-slate-900 min-w-[120px] focus:outline-none focus:ring-2 focus:ring-inset focus:ring-primary-500"
+      >
+        <span className="sr-only">{`${description}: filtered out`}</span>
+      </td>
+    );
+  }
+
+  const cellForeground = suggestion?.adjust === 'foreground' && suggestion.color ? suggestion.color : foreground;
+  const cellBackground = suggestion?.adjust === 'background' && suggestion.color ? suggestion.color : background;
+
+  return (
+    <td
+      {...cellProps}
+      className={`border border-slate-200 dark:border-slate-700 p-4 min-w-[120px] min-h-[100px] focus:outline-none focus:ring-2 focus:ring-inset focus:ring-primary-500 ${
+        isDiagonal ? 'opacity-30' : ''
+      }`}
+      style={{
+        // Gradients are drawn as they are, over the page surface
+        ...(isGradient(cellBackground)
+          ? { backgroundColor: simulate(surface), backgroundImage: simulate(cellBackground) }
+          : { backgroundColor: isValidColor(cellBackground) ? simulate(compositeOver(cellBackground, surface)) : 'transparent' }),
+        color: isValidColor(cellForeground) ? simulate(cellForeground) : 'inherit',
+      }}
+    >
+      <ContrastCell
+        foreground={recompute && isValidColor(cellForeground) ? simulate(cellForeground) : cellForeground}
+        background={recompute && isValidBackground(cellBackground) ? simulate(cellBackground) : cellBackground}
+        algorithm={algorithm}
+        description={description}
+        preview={preview}
+        surface={recompute ? simulate(surface) : surface}
+        levels={levels}
+        isValid={isValidColor(cellForeground) && isValidBackground(cellBackground)}
+        onSuggest={suggestion ? undefined : () => actions.onSuggest(row, column, 'foreground')}
+      />
+      {suggestion && (
+        <SuggestionControls
+          suggestion={suggestion}
+          onApply={actions.onApplySuggestion}
+          onSwitch={isGradient(background) ? undefined : () =>
+            actions.onSuggest(row, column, suggestion.adjust === 'foreground' ? 'background' : 'foreground')
+          }
+          onCancel={actions.onCancelSuggestion}
+        />
+      )}
+    </td>
+  );
+});
 
 const App: React.FC = () => {
-  const [foregroundColors, setForegroundColors] = useState<ColorEntry[]>(() => {
-    const savedColors = localStorage.getItem(STORAGE_KEY);
-    if (savedColors) {
+  // A grid shared through the URL hash takes precedence over localStorage
+  const [sharedLink] = useState<ShareResult | null>(() =>
+    hasSharedGrid(window.location.hash) ? decodeGrid(window.location.hash) : null
+  );
+  const [shareError, setShareError] = useState<string | undefined>(sharedLink?.error);
+  const [shareStatus, setShareStatus] = useState<'idle' | 'copied' | 'too-large' | 'failed'>('idle');
+  // Shown when the clipboard refuses the link, so it can be copied by hand
+  const [uncopiedLink, setUncopiedLink] = useState<string>();
+  const shareStatusTimer = useRef<number>();
+
+  // Read once; a read-only load never saves over data this build cannot read
+  const [workspaceLoad] = useState(loadWorkspace);
+  const [storageError, setStorageError] = useState(workspaceLoad.error);
+
+  const [workspace, setWorkspace] = useState<Workspace>(() => {
+    const loaded = workspaceLoad.workspace;
+    if (!sharedLink?.grid) return loaded;
+    const shared = createSharedGrid(sharedLink.grid);
+    return { ...loaded, activeId: shared.id, grids: [...loaded.grids, shared] };
+  });
+
+  const activeGrid = workspace.grids.find(grid => grid.id === workspace.activeId) ?? workspace.grids[0];
+
+  // Every edit to the lists goes through the history so it can be undone
+  const gridHistory = useGridHistory(activeGrid.id, {
+    fg: activeGrid.fg,
+    bg: activeGrid.bg,
+    pairs: activeGrid.pairs,
+    themes: activeGrid.themes,
+    linked: activeGrid.linked,
+  });
+  const pairs = gridHistory.present.pairs ?? [];
+  const themes = gridHistory.present.themes;
+  const linked = gridHistory.present.linked === true;
+
+  const [selectedTheme, setSelectedTheme] = useState(() => localStorage.getItem(THEME_STORAGE_KEY) ?? '');
+  const activeTheme = themes?.includes(selectedTheme) ? selectedTheme : themes?.[0] ?? '';
+
+  // The lists as the active theme shows them; setters fold edits back per theme.
+  // Unchanged entries keep their objects, so the grid reuses their cells.
+  const resolvedLists = useRef<{ fg: ColorEntry[]; bg: ColorEntry[] }>({ fg: [], bg: [] });
+  const foregroundColors = useMemo(() => {
+    const resolved = resolveEntries(gridHistory.present.fg, themes, activeTheme);
+    resolvedLists.current.fg = keepUnchanged(resolvedLists.current.fg, resolved);
+    return resolvedLists.current.fg;
+  }, [gridHistory.present.fg, themes, activeTheme]);
+  const backgroundColors = useMemo(() => {
+    const resolved = resolveEntries(gridHistory.present.bg, themes, activeTheme);
+    resolvedLists.current.bg = keepUnchanged(resolvedLists.current.bg, resolved);
+    return resolvedLists.current.bg;
+  }, [gridHistory.present.bg, themes, activeTheme]);
+
+  // Edits to one list keep pairs on the same entries, wherever they moved.
+  // A linked grid takes the edit on both axes.
+  const setAxisColors = (axis: 'fg' | 'bg', entries: ColorEntry[], coalesceKey?: string) => {
+    gridHistory.update(present => {
+      const stored = storeEntries(entries, present.themes, activeTheme);
+      const axes: ('fg' | 'bg')[] = present.linked ? ['fg', 'bg'] : [axis];
+      return axes.reduce<GridState>((next, edited) => ({
+        ...next,
+        [edited]: stored,
+        pairs: next.pairs && followEntries(next.pairs, edited, present[edited], stored),
+      }), present);
+    }, coalesceKey);
+  };
+
+  const setForegroundColors = (fg: ColorEntry[], coalesceKey?: string) => setAxisColors('fg', fg, coalesceKey);
+
+  const setBackgroundColors = (bg: ColorEntry[], coalesceKey?: string) => setAxisColors('bg', bg, coalesceKey);
+
+  // Both lists of a linked grid become whichever one the caller changed
+  const linkLists = (grid: GridState, isLinked: boolean | undefined) => {
+    if (!isLinked) return grid;
+    const edited = grid.fg !== foregroundColors ? grid.fg : grid.bg;
+    return { ...grid, fg: edited, bg: edited };
+  };
+
+  // Replaces both lists in one undo step; pairs are kept
+  const setGridColors = (grid: GridState) => {
+    gridHistory.update(present => {
+      const lists = linkLists(grid, present.linked);
+      return {
+        ...present,
+        ...lists,
+        fg: storeEntries(lists.fg, present.themes, activeTheme),
+        bg: storeEntries(lists.bg, present.themes, activeTheme),
+      };
+    });
+  };
+
+  // Like setGridColors, but pairs follow their entries by id; pairs on removed
+  // entries move to the entry named in `replacements`, if any
+  const setEntriesFollowingPairs = (grid: GridState, replacements?: Map<string, string>) => {
+    gridHistory.update(present => {
+      const lists = linkLists(grid, present.linked);
+      const fg = storeEntries(lists.fg, present.themes, activeTheme);
+      const bg = storeEntries(lists.bg, present.themes, activeTheme);
+      const pairs = present.pairs && followEntries(
+        followEntries(present.pairs, 'fg', present.fg, fg, replacements),
+        'bg', present.bg, bg, replacements
+      );
+      return { ...present, fg, bg, pairs };
+    });
+  };
+
+  const setPairs = (newPairs: ColorPair[], coalesceKey?: string) => {
+    gridHistory.update(present => ({ ...present, pairs: newPairs }), coalesceKey);
+  };
+
+  // Moves one entry and keeps pairs pointing at the same colors
+  const reorderEntries = (type: 'column' | 'row', from: number, to: number, coalesceKey?: string) => {
+    const axis = type === 'column' ? 'fg' : 'bg';
+    gridHistory.update(present => {
+      const entries = [...present[axis]];
+      const [moved] = entries.splice(from, 1);
+      entries.splice(to, 0, moved);
+      const axes: ('fg' | 'bg')[] = present.linked ? ['fg', 'bg'] : [axis];
+      return axes.reduce<GridState>((next, moving) => ({
+        ...next,
+        [moving]: entries,
+        pairs: next.pairs && remapPairs(next.pairs, moving, from, to),
+      }), present);
+    }, coalesceKey);
+  };
+
+  const dragSession = useRef(0);
+
+  // The picker follows its entry by id, so lines added above it don't move it
+  const [openPicker, setOpenPicker] = useState<{
+    type: 'foreground' | 'background';
+    id: string;
+  } | null>(null);
+  const pickerIndex = openPicker
+    ? (openPicker.type === 'foreground' ? foregroundColors : backgroundColors).findIndex(entry => entry.id === openPicker.id)
+    : -1;
+  // Gone once its entry is deleted or moved to the other list
+  const activeColorPicker = openPicker && pickerIndex !== -1 ? { type: openPicker.type, index: pickerIndex } : null;
+
+  const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isScaleOpen, setIsScaleOpen] = useState(false);
+  const [isImageOpen, setIsImageOpen] = useState(false);
+
+  const [viewMode, setViewMode] = useState<ViewMode>(() => {
+    const saved = localStorage.getItem(VIEW_MODE_STORAGE_KEY);
+    return VIEW_MODES.find(option => option.value === saved)?.value ?? 'matrix';
+  });
+  // Comparing needs at least two themes; the saved choice returns once the grid has them
+  const viewModes = VIEW_MODES.filter(option => option.value !== 'compare' || hasThemes(themes));
+  const layout = viewModes.some(option => option.value === viewMode) ? viewMode : 'matrix';
+
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+  const [draggedRowIndex, setDraggedRowIndex] = useState<number | null>(null);
+
+  // Only one cell is in the tab order; arrow keys move it around the grid
+  const [focusedCell, setFocusedCell] = useState({ row: 0, column: 0 });
+  const [announcement, setAnnouncement] = useState('');
+
+  const [algorithmId, setAlgorithmId] = useState<ContrastAlgorithmId>(() => {
+    if (sharedLink?.grid) return sharedLink.grid.algorithm;
+    const savedAlgorithm = localStorage.getItem(ALGORITHM_STORAGE_KEY);
+    return isContrastAlgorithmId(savedAlgorithm) ? savedAlgorithm : 'wcag2';
+  });
+
+  const algorithm = CONTRAST_ALGORITHMS[algorithmId];
+
+  const [targetSettings, setTargetSettings] = useState<{
+    target: TargetId;
+    custom: CustomLevels;
+  }>(() => {
+    let settings: { target: TargetId; custom: CustomLevels } = { target: 'text', custom: DEFAULT_CUSTOM_LEVELS };
+    const savedTarget = localStorage.getItem(TARGET_STORAGE_KEY);
+    if (savedTarget) {
       try {
-        const { fg } = JSON.parse(savedColors);
-        return fg;
+        const { target, custom } = JSON.parse(savedTarget);
+        settings = {
+          target: isTargetId(target) ? target : 'text',
+          custom: { ...DEFAULT_CUSTOM_LEVELS, ...custom },
+        };
       } catch (e) {
-        console.error('Error loading foreground colors:', e);
+        console.error('Error loading target profile:', e);
       }
     }
-    return [
-      { color: '#FFFFFF', label: ' White' },
-      { color: '#000000', label: ' Black' },
-      { color: '#FF0000', label: ' Red' },
-    ];
+    if (sharedLink?.grid) {
+      settings = {
+        target: sharedLink.grid.target,
+        custom: sharedLink.grid.custom ?? settings.custom,
+      };
+    }
+    return settings;
   });
 
-  const [backgroundColors, setBackgroundColors] = useState<ColorEntry[]>(() => {
-    const savedColors = localStorage.getItem(STORAGE_KEY);
-    if (savedColors) {
+  const [surface, setSurface] = useState<string>(() => {
+    if (sharedLink?.grid) return sharedLink.grid.surface;
+    const saved = localStorage.getItem(SURFACE_STORAGE_KEY);
+    return saved && isValidColor(saved) ? saved : SURFACES[0].color;
+  });
+
+  // Colors closer than this ΔE are reported as near-duplicates
+  const [duplicateThreshold, setDuplicateThreshold] = useState<number>(() => {
+    const saved = localStorage.getItem(DUPLICATE_THRESHOLD_STORAGE_KEY);
+    return saved !== null && Number(saved) >= 0 ? Number(saved) : DEFAULT_DUPLICATE_THRESHOLD;
+  });
+
+  // Entry ids checked in the grid headers, per list
+  const [selection, setSelection] = useState<Record<'fg' | 'bg', string[]>>({ fg: [], bg: [] });
+  // Last checked header, the anchor for Shift+click ranges
+  const selectionAnchor = useRef<{ axis: 'fg' | 'bg'; position: number } | null>(null);
+
+  const [gridView, setGridView] = useState<GridViewSettings>(() => {
+    const savedView = localStorage.getItem(GRID_VIEW_STORAGE_KEY);
+    if (savedView) {
       try {
-        const { bg } = JSON.parse(savedColors);
-        return bg;
+        return sanitizeGridView(JSON.parse(savedView));
       } catch (e) {
-        console.error('Error loading background colors:', e);
+        console.error('Error loading grid view:', e);
       }
     }
-    return [
-      { color: '#000000', label: ' Black' },
-      { color: '#FFFFFF', label: ' White' },
-      { color: '#0000FF', label: ' Blue' },
-    ];
+    return DEFAULT_GRID_VIEW;
   });
+  const [exportAll, setExportAll] = useState(false);
 
-  const [activeColorPicker, setActiveColorPicker] = useState<{
-    type: 'foreground' | 'background';
-    index: number;
-  } | null>(null);
+  const [textPreview, setTextPreview] = useState<TextPreviewSettings>(() => {
+    const savedPreview = localStorage.getItem(TEXT_PREVIEW_STORAGE_KEY);
+    if (savedPreview) {
+      try {
+        return sanitizeTextPreview(JSON.parse(savedPreview));
+      } catch (e) {
+        console.error('Error loading text preview:', e);
+      }
+    }
+    return DEFAULT_TEXT_PREVIEW;
+  });
 
-  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
-  const [draggedRowIndex, setDraggedRowIndex] = useState<number | null>(null);
+  const [cvd, setCvd] = useState<CvdSettings>(() => {
+    const savedCvd = localStorage.getItem(CVD_STORAGE_KEY);
+    if (savedCvd) {
+      try {
+        return sanitizeCvdSettings(JSON.parse(savedCvd));
+      } catch (e) {
+        console.error('Error loading vision simulation:', e);
+      }
+    }
+    return DEFAULT_CVD_SETTINGS;
+  });
+
+  // Colors as rendered on screen, run through the active vision simulation
+  const simulate = useCallback(
+    // Gradients have each stop simulated; unreadable values pass through
+    (color: string): string => mapColorValue(color, value => simulateCvd(value, cvd.type, cvd.severity)),
+    [cvd.type, cvd.severity]
+  );
+
+  // The same level list for a target on every render, so memoized cells can compare it
+  const levelsByTarget = useMemo(
+    () => Object.fromEntries(
+      TARGET_IDS.map(id => [id, getTargetProfile(id, targetSettings.custom).levels[algorithmId]])
+    ) as Record<TargetId, ContrastLevel[]>,
+    [targetSettings.custom, algorithmId]
+  );
+  const getLevels = (target: TargetId): ContrastLevel[] => levelsByTarget[target];
+
+  const targetsInUse = TARGET_IDS.filter(id =>
+    id === targetSettings.target ||
+    foregroundColors.some(entry => entry.target === id) ||
+    backgroundColors.some(entry => entry.target === id)
+  );
+
+  const updateCustomLevels = (levels: ContrastLevel[]) => {
+    setTargetSettings({
+      ...targetSettings,
+      custom: { ...targetSettings.custom, [algorithmId]: levels },
+    });
+  };
 
   const [isDarkMode, setIsDarkMode] = useState(() => {
     const savedMode = localStorage.getItem('color-scheme');
@@ -308,18 +863,200 @@ const App: React.FC = () => {
   }, [isDarkMode]);
 
   useEffect(() => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify({
-        fg: foregroundColors,
-        bg: backgroundColors
-      }));
-    } catch (e) {
-      console.error('Error saving colors:', e);
+    localStorage.setItem(ALGORITHM_STORAGE_KEY, algorithmId);
+  }, [algorithmId]);
+
+  // The shortcut listener is registered once and reads the current history
+  const latestGridHistory = useRef(gridHistory);
+  latestGridHistory.current = gridHistory;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return;
+      // Single-line inputs keep their native text undo
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT') return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        latestGridHistory.current.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        latestGridHistory.current.redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem(TARGET_STORAGE_KEY, JSON.stringify(targetSettings));
+  }, [targetSettings]);
+
+  useEffect(() => {
+    localStorage.setItem(SURFACE_STORAGE_KEY, surface);
+  }, [surface]);
+
+  useEffect(() => {
+    localStorage.setItem(CVD_STORAGE_KEY, JSON.stringify(cvd));
+  }, [cvd]);
+
+  useEffect(() => {
+    localStorage.setItem(TEXT_PREVIEW_STORAGE_KEY, JSON.stringify(textPreview));
+  }, [textPreview]);
+
+  useEffect(() => {
+    localStorage.setItem(GRID_VIEW_STORAGE_KEY, JSON.stringify(gridView));
+  }, [gridView]);
+
+  useEffect(() => {
+    localStorage.setItem(VIEW_MODE_STORAGE_KEY, viewMode);
+  }, [viewMode]);
+
+  useEffect(() => {
+    localStorage.setItem(THEME_STORAGE_KEY, selectedTheme);
+  }, [selectedTheme]);
+
+  useEffect(() => {
+    localStorage.setItem(DUPLICATE_THRESHOLD_STORAGE_KEY, String(duplicateThreshold));
+  }, [duplicateThreshold]);
+
+  const applySharedGrid = (grid: SharedGrid) => {
+    const shared = createSharedGrid(grid);
+    setWorkspace(current => ({ ...current, activeId: shared.id, grids: [...current.grids, shared] }));
+    gridHistory.load(shared.id, {
+      fg: shared.fg,
+      bg: shared.bg,
+      pairs: shared.pairs,
+      themes: shared.themes,
+      linked: shared.linked,
+    });
+    setAlgorithmId(grid.algorithm);
+    setTargetSettings(settings => ({
+      target: grid.target,
+      custom: grid.custom ?? settings.custom,
+    }));
+    setSurface(grid.surface);
+  };
+
+  useEffect(() => {
+    // Once loaded, the grid lives in localStorage; keeping the hash would revert edits on reload
+    const clearHash = () => {
+      history.replaceState(null, '', window.location.pathname + window.location.search);
+    };
+
+    if (hasSharedGrid(window.location.hash)) clearHash();
+
+    const handleHashChange = () => {
+      if (!hasSharedGrid(window.location.hash)) return;
+      const result = decodeGrid(window.location.hash);
+      if (result.grid) {
+        applySharedGrid(result.grid);
+        setShareError(undefined);
+      } else {
+        setShareError(result.error);
+      }
+      clearHash();
+    };
+
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const handleCopyLink = async () => {
+    const hash = encodeGrid({
+      fg: gridHistory.present.fg,
+      bg: gridHistory.present.bg,
+      themes,
+      linked,
+      pairs: gridHistory.present.pairs,
+      algorithm: algorithmId,
+      target: targetSettings.target,
+      custom: targetSettings.custom,
+      surface,
+    });
+    const url = `${window.location.origin}${window.location.pathname}${window.location.search}${hash}`;
+
+    setUncopiedLink(undefined);
+    if (hash.length > MAX_SHARE_LENGTH) {
+      setShareStatus('too-large');
+    } else {
+      try {
+        await navigator.clipboard.writeText(url);
+        setShareStatus('copied');
+      } catch (e) {
+        console.error('Error copying link:', e);
+        setShareStatus('failed');
+        setUncopiedLink(url);
+      }
     }
-  }, [foregroundColors, backgroundColors]);
+    window.clearTimeout(shareStatusTimer.current);
+    shareStatusTimer.current = window.setTimeout(() => setShareStatus('idle'), 2000);
+  };
+
+  useEffect(() => () => window.clearTimeout(shareStatusTimer.current), []);
+
+  useEffect(() => {
+    // The working lists always belong to the active grid
+    setWorkspace(current => ({
+      ...current,
+      grids: current.grids.map(grid =>
+        grid.id === current.activeId
+          ? { ...grid, ...gridHistory.present }
+          : grid
+      ),
+    }));
+  }, [gridHistory.present]);
+
+  useEffect(() => {
+    if (!workspaceLoad.readOnly) saveWorkspace(workspace);
+  }, [workspace, workspaceLoad]);
+
+  const switchGrid = (id: string, grids = workspace.grids) => {
+    const grid = grids.find(candidate => candidate.id === id);
+    if (!grid) return;
+    setWorkspace({ ...workspace, activeId: id, grids });
+    gridHistory.load(id, { fg: grid.fg, bg: grid.bg, pairs: grid.pairs, themes: grid.themes, linked: grid.linked });
+    setOpenPicker(null);
+  };
+
+  const handleNewGrid = () => {
+    const grid = createGrid(`Grid ${workspace.grids.length + 1}`);
+    switchGrid(grid.id, [...workspace.grids, grid]);
+  };
+
+  const handleDuplicateGrid = () => {
+    const grid = { ...createGrid(`${activeGrid.name} copy`), ...gridHistory.present };
+    switchGrid(grid.id, [...workspace.grids, grid]);
+  };
+
+  const handleRenameGrid = (name: string) => {
+    setWorkspace({
+      ...workspace,
+      grids: workspace.grids.map(grid => grid.id === activeGrid.id ? { ...grid, name } : grid),
+    });
+  };
+
+  const handleDeleteGrid = () => {
+    if (workspace.grids.length <= 1) return;
+    if (!window.confirm(`Delete "${activeGrid.name}"? This cannot be undone.`)) return;
+    const remaining = workspace.grids.filter(grid => grid.id !== activeGrid.id);
+    clearHistory(activeGrid.id);
+    switchGrid(remaining[0].id, remaining);
+  };
+
+  useEffect(() => {
+    // Suggestions are tied to row/column positions, which edits can shift, and
+    // to the simulation they were measured through
+    setSuggestion(null);
+  }, [foregroundColors, backgroundColors, cvd]);
 
   const handleColorChange = (newColor: string) => {
     if (!activeColorPicker) return;
+    // A continuous slider drag becomes a single undo step
+    const coalesceKey = `picker-${activeColorPicker.type}-${activeColorPicker.index}`;
 
     if (activeColorPicker.type === 'foreground') {
       const newColors = [...foregroundColors];
@@ -327,42 +1064,90 @@ const App: React.FC = () => {
         ...newColors[activeColorPicker.index],
         color: newColor
       };
-      setForegroundColors(newColors);
-      localStorage.setItem(STORAGE_KEY, JSON.stringify({
-        fg: newColors,
-        bg: backgroundColors
-      }));
+      setForegroundColors(newColors, coalesceKey);
     } else {
       const newColors = [...backgroundColors];
       newColors[activeColorPicker.index] = {
         ...newColors[activeColorPicker.index],
         color: newColor
       };
-      setBackgroundColors(newColors);
-      localStorage.setItem(STORAGE_KEY, JSON.stringify({
-        fg: foregroundColors,
-        bg: newColors
-      }));
+      setBackgroundColors(newColors, coalesceKey);
     }
   };
 
   const handleForegroundChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    // Preserve the exact input, including all whitespace
-    const colors = e.target.value
-      .split('\n')
-      .map(line => parseColorInput(line));
-    setForegroundColors(colors);
+    // Preserve the exact input, including all whitespace; unchanged lines keep their entry
+    const colors = reconcileEntries(foregroundColors, e.target.value.split('\n').map(parseColorInput));
+    setForegroundColors(colors, 'text-foreground');
   };
 
   const handleBackgroundChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    // Preserve the exact input, including all whitespace
-    const colors = e.target.value
-      .split('\n')
-      .map(line => parseColorInput(line));
-    setBackgroundColors(colors);
+    // Preserve the exact input, including all whitespace; unchanged lines keep their entry
+    const colors = reconcileEntries(backgroundColors, e.target.value.split('\n').map(parseColorInput));
+    setBackgroundColors(colors, 'text-background');
+  };
+
+  const handleSuggest = (row: number, column: number, adjust: SuggestionTarget) => {
+    const fgColor = foregroundColors[column];
+    const bgColor = backgroundColors[row];
+    const levels = getLevels(resolveTargetId(targetSettings.target, bgColor.target, fgColor.target));
+    if (levels.length === 0) return;
+
+    const color = findPassingColor({
+      foreground: fgColor.color,
+      background: bgColor.color,
+      adjust,
+      algorithm,
+      // The weakest passing level is enough to turn the cell from failing to passing
+      minimum: levels[levels.length - 1].min,
+      surface,
+      // Measured the way the grid measures it, including a recomputed simulation
+      transform: cvd.recompute ? simulate : undefined,
+    });
+    setSuggestion({ row, column, adjust, color });
+  };
+
+  const applySuggestion = () => {
+    if (!suggestion?.color) return;
+    const { row, column, adjust, color } = suggestion;
+
+    if (adjust === 'foreground') {
+      setForegroundColors(foregroundColors.map((entry, i) => i === column ? { ...entry, color } : entry));
+    } else {
+      setBackgroundColors(backgroundColors.map((entry, i) => i === row ? { ...entry, color } : entry));
+    }
+    setSuggestion(null);
+  };
+
+  const handleTargetChange = (type: 'foreground' | 'background', index: number, target?: TargetId) => {
+    if (type === 'foreground') {
+      setForegroundColors(foregroundColors.map((entry, i) => i === index ? { ...entry, target } : entry));
+    } else {
+      setBackgroundColors(backgroundColors.map((entry, i) => i === index ? { ...entry, target } : entry));
+    }
+  };
+
+  const handleAddTheme = () => {
+    const name = nextThemeName(themes);
+    gridHistory.update(present => addTheme(present, name));
+    setSelectedTheme(name);
+  };
+
+  const handleRenameTheme = (from: string, to: string) => {
+    const name = to.trim();
+    if (!name || name === from || themes?.includes(name)) return;
+    gridHistory.update(present => renameTheme(present, from, name));
+    if (activeTheme === from) setSelectedTheme(name);
+  };
+
+  const handleRemoveTheme = (theme: string) => {
+    if (!window.confirm(`Remove the "${theme}" theme and its colors?`)) return;
+    gridHistory.update(present => removeTheme(present, theme));
   };
 
   const handleClear = () => {
+    if (!window.confirm(`Clear all colors in "${activeGrid.name}"?`)) return;
+
     // Reset to basic 1x1 black and white grid
     const newForegroundColors: ColorEntry[] = [
       { color: '#FFFFFF', label: ' White' }
@@ -372,15 +1157,12 @@ const App: React.FC = () => {
       { color: '#000000', label: ' Black' }
     ];
 
-    setForegroundColors(newForegroundColors);
-    setBackgroundColors(newBackgroundColors);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify({
-      fg: newForegroundColors,
-      bg: newBackgroundColors
-    }));
+    setGridColors({ fg: newForegroundColors, bg: newBackgroundColors });
   };
 
   const handleRandom = () => {
+    if (!window.confirm(`Replace the colors in "${activeGrid.name}" with random ones?`)) return;
+
     // Generate random number of colors (1-4) for each
     const fgCount = Math.floor(Math.random() * 4) + 1;
     const bgCount = Math.floor(Math.random() * 4) + 1;
@@ -397,39 +1179,352 @@ const App: React.FC = () => {
       label: ` Row ${i + 1}`
     }));
 
-    setForegroundColors(newForegroundColors);
-    setBackgroundColors(newBackgroundColors);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify({
-      fg: newForegroundColors,
-      bg: newBackgroundColors
-    }));
+    setGridColors({ fg: newForegroundColors, bg: newBackgroundColors });
   };
 
-  const isValidColor = (color: string): boolean => {
-    try {
-      chroma(color);
-      return true;
-    } catch {
-      return false;
-    }
+  const handleImport = (rows: ImportedToken[], columns: ImportedToken[], replace: boolean) => {
+    // Token names become labels, keeping the leading separator the textarea format expects
+    const toEntry = (token: ImportedToken): ColorEntry => ({ color: token.color, label: ` ${token.name}` });
+
+    setGridColors({
+      fg: columns.length === 0
+        ? foregroundColors
+        : replace ? columns.map(toEntry) : [...foregroundColors, ...columns.map(toEntry)],
+      bg: rows.length === 0
+        ? backgroundColors
+        : replace ? rows.map(toEntry) : [...backgroundColors, ...rows.map(toEntry)],
+    });
+    setIsImportOpen(false);
+  };
+
+  const handleInsertEntries = (entries: ColorEntry[], placement: ScalePlacement, replace: boolean) => {
+    const merge = (current: ColorEntry[]) => (replace ? entries : [...current, ...entries]);
+    setGridColors({
+      fg: placement === 'row' ? foregroundColors : merge(foregroundColors),
+      bg: placement === 'column' ? backgroundColors : merge(backgroundColors),
+    });
+    setIsScaleOpen(false);
+    setIsImageOpen(false);
+  };
+
+  const getCellTarget = (fgColor: ColorEntry, bgColor: ColorEntry) => {
+    const target = resolveTargetId(targetSettings.target, bgColor.target, fgColor.target);
+    return { name: getTargetProfile(target, targetSettings.custom).name, levels: getLevels(target) };
   };
 
-  const getRatio = (color1: string, color2: string): number => {
-    try {
-      return chroma.contrast(color1, color2);
-    } catch {
-      return 0;
+  const buildExportMatrix = (fg: ColorEntry[], bg: ColorEntry[]) =>
+    buildContrastMatrix(fg, bg, algorithm, surface, getCellTarget);
+
+  // Exports follow the grid's hidden entries, filter and sort order unless everything is asked for.
+  // The view is taken from the exported values of the active theme, not the simulated ones the grid
+  // may measure, and applied to every exported matrix so they keep the same rows and columns.
+  const createExportView = (active: ContrastMatrix): ((matrix: ContrastMatrix) => ContrastMatrix) => {
+    if (exportAll) return matrix => matrix;
+    const exportView = getGridView(active, hiddenEntries, gridView);
+    return matrix => applyGridView(matrix, exportView);
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const matrix = buildExportMatrix(foregroundColors, backgroundColors);
+    const { extension, mimeType } = EXPORT_FORMATS[format];
+    downloadFile(exportMatrix(createExportView(matrix)(matrix), format), `contrast-grid.${extension}`, mimeType);
+  };
+
+  // Every exported entry with its value per theme, annotated with the pairs it passes in
+  const handleTokenExport = (format: TokenExportFormat) => {
+    const active = buildExportMatrix(foregroundColors, backgroundColors);
+    const toExported = createExportView(active);
+    const modes = hasThemes(themes)
+      ? themes.map(theme => ({
+        mode: theme,
+        matrix: toExported(theme === activeTheme ? active : buildExportMatrix(
+          resolveEntries(gridHistory.present.fg, themes, theme),
+          resolveEntries(gridHistory.present.bg, themes, theme)
+        )),
+      }))
+      : [{ mode: DEFAULT_MODE, matrix: toExported(active) }];
+    const { extension, mimeType } = TOKEN_EXPORT_FORMATS[format];
+    downloadFile(exportTokens(modes, format, activeGrid.name), `contrast-grid.${extension}`, mimeType);
+  };
+
+  // Contrast as the grid shows it, used to filter, sort and summarize
+  const simulateEntry = useMemo(() => createEntrySimulator(simulate), [simulate]);
+  const asDisplayed = (entry: ColorEntry): ColorEntry =>
+    cvd.recompute && isValidBackground(entry.color) ? simulateEntry(entry) : entry;
+  // Rebuilt only when the colors or settings change, not when a dialog opens or a cell takes focus.
+  // Cells of unchanged entries carry over while the targets stay the same.
+  const previousMatrix = useRef<{ matrix: ContrastMatrix; target: TargetId; levels: typeof levelsByTarget }>();
+  const viewMatrix = useMemo(() => {
+    const previous = previousMatrix.current;
+    const matrix = buildContrastMatrix(
+      foregroundColors.map(asDisplayed),
+      backgroundColors.map(asDisplayed),
+      algorithm,
+      cvd.recompute ? simulate(surface) : surface,
+      getCellTarget,
+      previous?.target === targetSettings.target && previous.levels === levelsByTarget ? previous.matrix : undefined
+    );
+    previousMatrix.current = { matrix, target: targetSettings.target, levels: levelsByTarget };
+    return matrix;
+  }, [foregroundColors, backgroundColors, algorithm, surface, cvd.recompute, simulate, levelsByTarget, targetSettings.target]);
+  // The visible part of the grid in one theme, for comparing themes side by side
+  const buildThemeMatrix = (theme: string, gridThemes: string[]) => {
+    const visible = (entries: ColorEntry[]) =>
+      resolveEntries(entries, gridThemes, theme).filter(entry => !entry.hidden).map(asDisplayed);
+    return buildContrastMatrix(
+      visible(gridHistory.present.fg),
+      visible(gridHistory.present.bg),
+      algorithm,
+      cvd.recompute ? simulate(surface) : surface,
+      getCellTarget
+    );
+  };
+
+  const hiddenEntries = useMemo(() => ({
+    rows: backgroundColors.map(entry => Boolean(entry.hidden)),
+    columns: foregroundColors.map(entry => Boolean(entry.hidden)),
+  }), [foregroundColors, backgroundColors]);
+  const view = useMemo(() => getGridView(viewMatrix, hiddenEntries, gridView), [viewMatrix, hiddenEntries, gridView]);
+  const summary = useMemo(
+    () => summarizeGrid(viewMatrix, getGridView(viewMatrix, hiddenEntries, DEFAULT_GRID_VIEW)),
+    [viewMatrix, hiddenEntries]
+  );
+  const gridRef = useRef<HTMLDivElement>(null);
+  const gridWindow = useGridWindow(gridRef, view.rows.length, view.columns.length);
+  // Only the rows and columns in or near the scrolled viewport are rendered
+  const windowForeground = view.columns
+    .slice(gridWindow.columns.start, gridWindow.columns.end)
+    .map((index, offset) => ({ entry: foregroundColors[index], index, position: gridWindow.columns.start + offset }));
+  const windowBackground = view.rows
+    .slice(gridWindow.rows.start, gridWindow.rows.end)
+    .map((index, offset) => ({ entry: backgroundColors[index], index, position: gridWindow.rows.start + offset }));
+  const hiddenCount = hiddenEntries.rows.filter(Boolean).length + hiddenEntries.columns.filter(Boolean).length;
+  const filterLevels = [...new Set(targetsInUse.flatMap(target => getLevels(target).map(level => level.label)))];
+
+  // Sorted axes follow the contrast values, so manual reordering is paused
+  const canReorderColumns = gridView.sortColumns === 'manual';
+  const canReorderRows = gridView.sortRows === 'manual';
+
+  const setHidden = (type: 'foreground' | 'background', index: number, hidden: boolean) => {
+    const colors = type === 'foreground' ? foregroundColors : backgroundColors;
+    const newColors = colors.map((entry, i) => (i === index ? { ...entry, hidden: hidden || undefined } : entry));
+    if (type === 'foreground') {
+      setForegroundColors(newColors);
+    } else {
+      setBackgroundColors(newColors);
     }
   };
 
+  const showAllEntries = () => {
+    const show = (entry: ColorEntry): ColorEntry => ({ ...entry, hidden: undefined });
+    setGridColors({ fg: foregroundColors.map(show), bg: backgroundColors.map(show) });
+  };
+
+  const getPickerPairs = (): PairedColor[] => {
+    if (!activeColorPicker) return [];
+    const isForeground = activeColorPicker.type === 'foreground';
+    const active = isForeground
+      ? foregroundColors[activeColorPicker.index]
+      : backgroundColors[activeColorPicker.index];
+    if (!isValidColor(active.color)) return [];
+
+    return (isForeground ? backgroundColors : foregroundColors).flatMap(entry => {
+      const fgColor = isForeground ? active : entry;
+      const bgColor = isForeground ? entry : active;
+      // Gradient backgrounds count with their worst case
+      const measured = measureContrastRange(fgColor.color, bgColor.color, algorithm, surface);
+      if (!measured) return [];
+      const levels = getLevels(resolveTargetId(targetSettings.target, bgColor.target, fgColor.target));
+      return [{
+        label: cleanLabel(entry) || entry.color,
+        color: entry.color,
+        value: algorithm.format(measured.value),
+        passes: Boolean(getContrastLevel(levels, measured.value)),
+      }];
+    });
+  };
+
+  const foregroundErrors = getLineErrors(foregroundColors);
+  const backgroundErrors = getLineErrors(backgroundColors, true);
+
   const formatColorValue = (entry: ColorEntry): string => {
     if (!entry.label) return entry.color;
     // Return exactly what was entered, preserving original spacing
     return `${entry.color}${entry.label}`;
   };
 
+  const getEntryName = (entry: ColorEntry): string => cleanLabel(entry) || entry.color;
+
+  const toggleColorPicker = (type: 'foreground' | 'background', index: number) => {
+    const entry = (type === 'foreground' ? foregroundColors : backgroundColors)[index];
+    // Gradients, and lines that do not read as a color, are edited in the text area
+    if (!entry?.id || !isValidColor(entry.color)) return;
+    const { id } = entry;
+    setOpenPicker(openPicker?.type === type && openPicker.id === id ? null : { type, id });
+  };
+
+  const foregroundDuplicates = useMemo(
+    () => findDuplicates(foregroundColors, duplicateThreshold),
+    [foregroundColors, duplicateThreshold]
+  );
+  const backgroundDuplicates = useMemo(
+    () => findDuplicates(backgroundColors, duplicateThreshold),
+    [backgroundColors, duplicateThreshold]
+  );
+
+  // Keeps the first entry of a group; pairs on the others move to it
+  const mergeDuplicates = (axis: 'fg' | 'bg', group: DuplicateGroup) => {
+    const entries = axis === 'fg' ? foregroundColors : backgroundColors;
+    const [keep, ...removed] = group.indices.map(index => entries[index]);
+    const replacements = new Map<string, string>();
+    removed.forEach(entry => {
+      if (entry.id && keep.id) replacements.set(entry.id, keep.id);
+    });
+    const remaining = entries.filter(entry => !removed.includes(entry));
+    setEntriesFollowingPairs({
+      fg: axis === 'fg' ? remaining : foregroundColors,
+      bg: axis === 'bg' ? remaining : backgroundColors,
+    }, replacements);
+  };
+
+  // In a linked grid, list indices match across axes
+  const isDiagonal = (row: number, column: number): boolean => linked && row === column;
+
+  // A linked grid selects entries on both axes at once, kept under 'fg'
+  const selectionAxis = (axis: 'fg' | 'bg') => (linked ? 'fg' : axis);
+  const isSelected = (axis: 'fg' | 'bg', entry: ColorEntry): boolean =>
+    entry.id !== undefined && selection[selectionAxis(axis)].includes(entry.id);
+  const selectedColumns = foregroundColors.filter(entry => isSelected('fg', entry));
+  const selectedRows = backgroundColors.filter(entry => isSelected('bg', entry));
+
+  // Position is in the displayed grid; Shift extends from the last checked header
+  const toggleSelected = (axis: 'fg' | 'bg', position: number, extend: boolean) => {
+    const entries = axis === 'fg' ? foregroundColors : backgroundColors;
+    const displayed = axis === 'fg' ? view.columns : view.rows;
+    const anchor = selectionAnchor.current;
+    const from = extend && anchor?.axis === axis ? Math.min(anchor.position, position) : position;
+    const to = extend && anchor?.axis === axis ? Math.max(anchor.position, position) : position;
+    const ids = displayed
+      .slice(from, to + 1)
+      .map(index => entries[index]?.id)
+      .filter((id): id is string => id !== undefined);
+    const select = !isSelected(axis, entries[displayed[position]]);
+
+    const key = selectionAxis(axis);
+    setSelection({
+      ...selection,
+      [key]: select
+        ? [...new Set([...selection[key], ...ids])]
+        : selection[key].filter(id => !ids.includes(id)),
+    });
+    selectionAnchor.current = { axis, position };
+  };
+
+  const adjustSelected = (adjustment: BulkAdjustment) => {
+    const adjust = (axis: 'fg' | 'bg') => (entry: ColorEntry): ColorEntry =>
+      isSelected(axis, entry) ? { ...entry, color: adjustColor(entry.color, adjustment) } : entry;
+    setGridColors({ fg: foregroundColors.map(adjust('fg')), bg: backgroundColors.map(adjust('bg')) });
+  };
+
+  const deleteSelected = () => {
+    setEntriesFollowingPairs({
+      fg: foregroundColors.filter(entry => !isSelected('fg', entry)),
+      bg: backgroundColors.filter(entry => !isSelected('bg', entry)),
+    });
+    setSelection({ fg: [], bg: [] });
+  };
+
+  // Appends the selected entries of the other list to `to`; they stay selected there
+  const moveSelected = (to: 'fg' | 'bg') => {
+    const from = to === 'fg' ? 'bg' : 'fg';
+    const moving = from === 'fg' ? selectedColumns : selectedRows;
+    const lists = { fg: foregroundColors, bg: backgroundColors };
+    lists[from] = lists[from].filter(entry => !moving.includes(entry));
+    lists[to] = [...lists[to], ...moving];
+    setEntriesFollowingPairs(lists);
+    setSelection({ ...selection, [from]: [], [to]: [...selection[to], ...selection[from]] });
+  };
+
+  const handleLinkedChange = (link: boolean) => {
+    if (!link) {
+      gridHistory.update(unlinkGrid);
+      return;
+    }
+    if (
+      !coversRows(gridHistory.present) &&
+      !window.confirm('Use the column colors for the rows too? The current row colors are replaced.')
+    ) return;
+    gridHistory.update(linkGrid);
+    setSelection(current => ({ fg: current.fg, bg: [] }));
+  };
+
+  const handleTranspose = () => {
+    gridHistory.update(transposeGrid);
+    // Selection and the open picker stay on their entries, now on the other axis
+    setSelection(current => ({ fg: current.bg, bg: current.fg }));
+    setOpenPicker(current => current && { ...current, type: current.type === 'foreground' ? 'background' : 'foreground' });
+  };
+
+  // Keyboard alternative to dragging: Alt+Arrow swaps places with the next visible entry
+  const moveEntry = (type: 'column' | 'row', index: number, offset: number) => {
+    const colors = type === 'column' ? foregroundColors : backgroundColors;
+    const displayed = type === 'column' ? view.columns : view.rows;
+    const position = displayed.indexOf(index) + offset;
+    if (position < 0 || position >= displayed.length) return;
+    const target = displayed[position];
+
+    const moved = colors[index];
+    reorderEntries(type, index, target);
+
+    setAnnouncement(`Moved ${getEntryName(moved)} to ${type} ${position + 1} of ${displayed.length}`);
+    focusElement(`[data-color-index="${type === 'column' ? 'foreground' : 'background'}-${target}"]`);
+  };
+
+  const handleSwatchKeyDown = (e: React.KeyboardEvent, type: 'column' | 'row', index: number) => {
+    if (!e.altKey || !(type === 'column' ? canReorderColumns : canReorderRows)) return;
+    const offsets: Record<string, number> = type === 'column'
+      ? { ArrowLeft: -1, ArrowRight: 1 }
+      : { ArrowUp: -1, ArrowDown: 1 };
+    const offset = offsets[e.key];
+    if (offset === undefined) return;
+    e.preventDefault();
+    moveEntry(type, index, offset);
+  };
+
+  // Row and column are positions in the displayed grid, not list indices
+  const handleCellKeyDown = (e: React.KeyboardEvent, row: number, column: number) => {
+    // Keys pressed on the cell's own buttons keep their default behavior
+    if (e.target !== e.currentTarget) return;
+
+    const lastRow = view.rows.length - 1;
+    const lastColumn = view.columns.length - 1;
+    const next = { row, column };
+    switch (e.key) {
+      case 'ArrowUp': next.row = Math.max(0, row - 1); break;
+      case 'ArrowDown': next.row = Math.min(lastRow, row + 1); break;
+      case 'ArrowLeft': next.column = Math.max(0, column - 1); break;
+      case 'ArrowRight': next.column = Math.min(lastColumn, column + 1); break;
+      case 'Home':
+        next.column = 0;
+        if (e.ctrlKey) next.row = 0;
+        break;
+      case 'End':
+        next.column = lastColumn;
+        if (e.ctrlKey) next.row = lastRow;
+        break;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    setFocusedCell(next);
+    gridWindow.scrollToCell(next.row, next.column);
+    focusElement(`[data-cell="${view.rows[next.row]}-${view.columns[next.column]}"]`);
+  };
+
   const handleDragStart = (e: React.DragEvent, index: number, type: 'column' | 'row') => {
     e.stopPropagation();
+    dragSession.current++;
     if (type === 'column') {
       setDraggedIndex(index);
     } else {
@@ -441,19 +1536,11 @@ const App: React.FC = () => {
     e.preventDefault();
     if (type === 'column') {
       if (draggedIndex === null || draggedIndex === index) return;
-      const newColors = [...foregroundColors];
-      const draggedColor = newColors[draggedIndex];
-      newColors.splice(draggedIndex, 1);
-      newColors.splice(index, 0, draggedColor);
-      setForegroundColors(newColors);
+      reorderEntries('column', draggedIndex, index, `drag-${dragSession.current}`);
       setDraggedIndex(index);
     } else {
       if (draggedRowIndex === null || draggedRowIndex === index) return;
-      const newColors = [...backgroundColors];
-      const draggedColor = newColors[draggedRowIndex];
-      newColors.splice(draggedRowIndex, 1);
-      newColors.splice(index, 0, draggedColor);
-      setBackgroundColors(newColors);
+      reorderEntries('row', draggedRowIndex, index, `drag-${dragSession.current}`);
       setDraggedRowIndex(index);
     }
   };
@@ -466,8 +1553,36 @@ const App: React.FC = () => {
     }
   };
 
+  // Only rendered cells can hold the tab stop, so it falls back to the first one in view
+  const toWindow = (position: number, axis: { start: number; end: number }) =>
+    position >= axis.start && position < axis.end ? position : axis.start;
+  const tabbableCell = {
+    row: toWindow(Math.min(focusedCell.row, view.rows.length - 1), gridWindow.rows),
+    column: toWindow(Math.min(focusedCell.column, view.columns.length - 1), gridWindow.columns),
+  };
+
+  // Cells are memoized, so they share one set of callbacks that call the latest handlers
+  const latestCellActions = useRef<GridCellActions>();
+  latestCellActions.current = {
+    onFocus: (row, column) => setFocusedCell({ row, column }),
+    onKeyDown: handleCellKeyDown,
+    onSuggest: handleSuggest,
+    onApplySuggestion: applySuggestion,
+    onCancelSuggestion: () => setSuggestion(null),
+  };
+  const cellActions = useMemo<GridCellActions>(() => ({
+    onFocus: (row, column) => latestCellActions.current?.onFocus(row, column),
+    onKeyDown: (e, row, column) => latestCellActions.current?.onKeyDown(e, row, column),
+    onSuggest: (row, column, adjust) => latestCellActions.current?.onSuggest(row, column, adjust),
+    onApplySuggestion: () => latestCellActions.current?.onApplySuggestion(),
+    onCancelSuggestion: () => latestCellActions.current?.onCancelSuggestion(),
+  }), []);
+
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-900 py-8">
+      <div className="sr-only" aria-live="polite">
+        {announcement}
+      </div>
       <button
         onClick={() => setIsDarkMode(!isDarkMode)}
         className="fixed top-4 right-4 p-2 rounded-lg bg-white dark:bg-slate-800 shadow-lg border border-slate-200 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
@@ -498,43 +1613,441 @@ const App: React.FC = () => {
 
       <div className="mx-auto px-4 sm:px-6 lg:px-8">
         <div className="space-y-8">
+          {storageError && <Notice message={storageError} onDismiss={() => setStorageError(undefined)} />}
+          {shareError && <Notice message={shareError} onDismiss={() => setShareError(undefined)} />}
+
           <div className="text-center">
             <h1 className="text-4xl font-bold text-slate-900 dark:text-white mb-4">
               Contrast Grid Editor
             </h1>
             <p className="text-sm text-slate-600 dark:text-slate-300 max-w-2xl mx-auto">
-              Compare multiple background and foreground colors to check their contrast ratio for accessibility. Easily adjust colors using HSL or RGB by clicking on any swatch to ensure <a className='underline hover:text-slate-900 dark:hover:text-slate-200 transition-colors' href='https://www.w3.org/TR/UNDERSTANDING-WCAG20/visual-audio-contrast-contrast.html' target='_blank'>WCAG compliance</a>.
+              Compare multiple background and foreground colors to check their contrast ratio for accessibility. Easily adjust colors using OKLCH, LCH, HSL, HSV or RGB by clicking on any swatch to ensure <a className='underline hover:text-slate-900 dark:hover:text-slate-200 transition-colors' href='https://www.w3.org/TR/UNDERSTANDING-WCAG20/visual-audio-contrast-contrast.html' target='_blank'>WCAG compliance</a>.
             </p>
           </div>
 
+          <div className="flex flex-wrap items-center gap-2 bg-white dark:bg-slate-800 rounded-lg shadow-sm p-4">
+            <label className="text-sm font-medium text-slate-700 dark:text-slate-200" htmlFor="grid-select">
+              Grid:
+            </label>
+            <select
+              id="grid-select"
+              className="px-3 py-1 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg"
+              value={activeGrid.id}
+              onChange={(e) => switchGrid(e.target.value)}
+            >
+              {workspace.grids.map(grid => (
+                <option key={grid.id} value={grid.id}>
+                  {grid.name}
+                </option>
+              ))}
+            </select>
+            <input
+              className="px-3 py-1 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg"
+              value={activeGrid.name}
+              onChange={(e) => handleRenameGrid(e.target.value)}
+              aria-label="Grid name"
+            />
+            <button
+              onClick={handleNewGrid}
+              className="px-3 py-1 text-sm text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-600 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              New
+            </button>
+            <button
+              onClick={handleDuplicateGrid}
+              className="px-3 py-1 text-sm text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-600 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              Duplicate
+            </button>
+            <button
+              onClick={handleDeleteGrid}
+              disabled={workspace.grids.length <= 1}
+              className="px-3 py-1 text-sm text-red-600 dark:text-red-400 border border-slate-200 dark:border-slate-600 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+            >
+              Delete
+            </button>
+          </div>
+
           <div className="grid md:grid-cols-5 gap-6">
-            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-6 col-span-2">
-              <label className="block text-sm font-medium text-slate-700 dark:text-slate-200 mb-2">
-                Background Colors (Rows):
-              </label>
-              <textarea
-                className="w-full h-32 px-3 py-2 text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-500 focus:border-transparent font-mono text-sm"
-                value={backgroundColors.map(formatColorValue).join("\n")}
-                onChange={handleBackgroundChange}
-                placeholder="Enter colors (one per line)"
-              />
-            </div>
+            {!linked && (
+              <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-6 col-span-2">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-200 mb-2">
+                  Background Colors (Rows):{hasThemes(themes) && ` ${activeTheme}`}
+                </label>
+                <textarea
+                  className="w-full h-32 px-3 py-2 text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-500 focus:border-transparent font-mono text-sm"
+                  value={backgroundColors.map(formatColorValue).join("\n")}
+                  onChange={handleBackgroundChange}
+                  aria-invalid={backgroundErrors.length > 0}
+                  aria-describedby={backgroundErrors.length > 0 ? 'background-errors' : undefined}
+                  placeholder="Enter colors (one per line)"
+                />
+                {backgroundErrors.length > 0 && <LineErrorList id="background-errors" errors={backgroundErrors} />}
+                {backgroundDuplicates.length > 0 && (
+                  <DuplicateList
+                    groups={backgroundDuplicates}
+                    entries={backgroundColors}
+                    onMerge={(group) => mergeDuplicates('bg', group)}
+                  />
+                )}
+              </div>
+            )}
 
-            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-6 col-span-2">
+            <div className={`bg-white dark:bg-slate-800 rounded-lg shadow-sm p-6 ${linked ? 'col-span-4' : 'col-span-2'}`}>
               <label className="block text-sm font-medium text-slate-700 dark:text-slate-200 mb-2">
-                Foreground Colors (Columns):
+                {linked ? 'Colors (Rows and Columns)' : 'Foreground Colors (Columns)'}:{hasThemes(themes) && ` ${activeTheme}`}
               </label>
               <textarea
                 className="w-full h-32 px-3 py-2 text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-500 focus:border-transparent font-mono text-sm"
                 value={foregroundColors.map(formatColorValue).join("\n")}
                 onChange={handleForegroundChange}
+                aria-invalid={foregroundErrors.length > 0}
+                aria-describedby={foregroundErrors.length > 0 ? 'foreground-errors' : undefined}
                 placeholder="Enter colors (one per line) - Drag column headers to reorder"
               />
+              {foregroundErrors.length > 0 && <LineErrorList id="foreground-errors" errors={foregroundErrors} />}
+              {foregroundDuplicates.length > 0 && (
+                <DuplicateList
+                  groups={foregroundDuplicates}
+                  entries={foregroundColors}
+                  onMerge={(group) => mergeDuplicates('fg', group)}
+                />
+              )}
             </div>
 
             <div className="bg-transparent rounded-lg shadow-sm col-span-1">
 
               <div className="space-y-4">
+                <div className="flex rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+                  {Object.values(CONTRAST_ALGORITHMS).map((option, index, options) => (
+                    <button
+                      key={option.id}
+                      className={`flex-1 px-3 py-2 text-sm ${
+                        index === 0 ? 'rounded-l-lg' : ''
+                      } ${
+                        index === options.length - 1 ? 'rounded-r-lg' : ''
+                      } ${
+                        algorithmId === option.id
+                          ? 'bg-slate-600 text-white'
+                          : 'text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+                      }`}
+                      onClick={() => setAlgorithmId(option.id)}
+                    >
+                      {option.name}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-200 mb-1">
+                    Themes
+                  </label>
+                  {hasThemes(themes) ? (
+                    themes.map((theme, index) => (
+                      <div key={theme} className="flex items-center gap-2">
+                        <input
+                          className="flex-1 min-w-0 px-2 py-1 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded"
+                          defaultValue={theme}
+                          onBlur={(e) => handleRenameTheme(theme, e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur();
+                          }}
+                          aria-label={`Theme ${index + 1} name`}
+                          title={index === 0 ? 'Other themes use these colors unless they have their own' : undefined}
+                        />
+                        <button
+                          className="text-sm text-red-600 dark:text-red-500 hover:underline"
+                          onClick={() => handleRemoveTheme(theme)}
+                          aria-label={`Remove ${theme}`}
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))
+                  ) : (
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      Give every color a value per theme, e.g. light and dark.
+                    </p>
+                  )}
+                  <button
+                    className="text-sm text-slate-600 dark:text-slate-300 underline hover:text-slate-900 dark:hover:text-slate-200"
+                    onClick={handleAddTheme}
+                  >
+                    {hasThemes(themes) ? 'Add theme' : 'Add light and dark themes'}
+                  </button>
+                </div>
+
+                <div>
+                  <label
+                    className="block text-sm font-medium text-slate-700 dark:text-slate-200 mb-1"
+                    htmlFor="duplicate-threshold"
+                  >
+                    Near-duplicate ΔE
+                  </label>
+                  <input
+                    id="duplicate-threshold"
+                    type="number"
+                    min={0}
+                    max={20}
+                    step={0.5}
+                    className="w-full px-3 py-2 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-500"
+                    value={duplicateThreshold}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      if (value >= 0) setDuplicateThreshold(value);
+                    }}
+                  />
+                  <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                    Colors in the same list closer than this (CIEDE2000) are listed under the text areas
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-200 mb-1">
+                    Page surface
+                  </label>
+                  <select
+                    className="w-full px-3 py-2 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-500"
+                    value={surface}
+                    onChange={(e) => setSurface(e.target.value)}
+                    title="Base color that translucent backgrounds are blended over"
+                  >
+                    {SURFACES.map(option => (
+                      <option key={option.color} value={option.color}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-200 mb-1">
+                    Vision simulation
+                  </label>
+                  <select
+                    className="w-full px-3 py-2 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-500"
+                    value={cvd.type}
+                    onChange={(e) => setCvd({ ...cvd, type: e.target.value as CvdType })}
+                  >
+                    {CVD_TYPES.map(option => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  {cvd.type !== 'none' && (
+                    <>
+                      <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                        <span>Severity</span>
+                        <input
+                          type="range"
+                          min={0}
+                          max={100}
+                          value={Math.round(cvd.severity * 100)}
+                          onChange={(e) => setCvd({ ...cvd, severity: Number(e.target.value) / 100 })}
+                          className="flex-1"
+                        />
+                        <span>{Math.round(cvd.severity * 100)}%</span>
+                      </div>
+                      <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                        <input
+                          type="checkbox"
+                          checked={cvd.recompute}
+                          onChange={(e) => setCvd({ ...cvd, recompute: e.target.checked })}
+                        />
+                        Recompute contrast
+                      </label>
+                    </>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-200 mb-1">
+                    View
+                  </label>
+                  <select
+                    className="w-full px-3 py-2 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-500"
+                    value={gridView.filter}
+                    onChange={(e) => {
+                      if (isCellFilter(e.target.value)) {
+                        setGridView({ ...gridView, filter: e.target.value });
+                      }
+                    }}
+                    aria-label="Filter cells"
+                  >
+                    <option value="all">All cells</option>
+                    <option value="passing">Passing only</option>
+                    <option value="failing">Failing only</option>
+                    {filterLevels.map(label => (
+                      <option key={label} value={`level:${label}` as CellFilter}>
+                        Only {label}
+                      </option>
+                    ))}
+                  </select>
+                  {([
+                    ['sortRows', 'Sort rows'],
+                    ['sortColumns', 'Sort columns'],
+                  ] as const).map(([key, label]) => (
+                    <div key={key} className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                      <span className="w-24 shrink-0">{label}</span>
+                      <select
+                        className="flex-1 px-2 py-1 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded"
+                        value={gridView[key]}
+                        onChange={(e) => setGridView({ ...gridView, [key]: e.target.value as SortOrder })}
+                        aria-label={label}
+                      >
+                        {SORT_ORDERS.map(option => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                  {hiddenCount > 0 && (
+                    <div className="flex items-center justify-between text-sm text-slate-600 dark:text-slate-300">
+                      <span>{hiddenCount} hidden</span>
+                      <button
+                        className="underline hover:text-slate-900 dark:hover:text-slate-200"
+                        onClick={showAllEntries}
+                      >
+                        Show all
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-200">
+                    <input
+                      type="checkbox"
+                      checked={textPreview.enabled}
+                      onChange={(e) => setTextPreview({ ...textPreview, enabled: e.target.checked })}
+                    />
+                    Text preview
+                  </label>
+                  {textPreview.enabled && (
+                    <TextPreviewEditor settings={textPreview} onChange={setTextPreview} />
+                  )}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-200 mb-1">
+                    Target
+                  </label>
+                  <select
+                    className="w-full px-3 py-2 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-500"
+                    value={targetSettings.target}
+                    onChange={(e) => {
+                      if (isTargetId(e.target.value)) {
+                        setTargetSettings({ ...targetSettings, target: e.target.value });
+                      }
+                    }}
+                  >
+                    {TARGET_IDS.map(id => (
+                      <option key={id} value={id}>
+                        {getTargetProfile(id, targetSettings.custom).name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={gridHistory.undo}
+                    disabled={!gridHistory.canUndo}
+                    title="Undo (Ctrl/Cmd+Z)"
+                    className="flex-1 px-3 py-2 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+                  >
+                    Undo
+                  </button>
+                  <button
+                    onClick={gridHistory.redo}
+                    disabled={!gridHistory.canRedo}
+                    title="Redo (Ctrl/Cmd+Shift+Z)"
+                    className="flex-1 px-3 py-2 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+                  >
+                    Redo
+                  </button>
+                </div>
+
+                <button
+                  onClick={handleCopyLink}
+                  className="w-full px-4 py-2 bg-slate-600 dark:bg-slate-700 text-white rounded-lg hover:bg-slate-700 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 transition-colors"
+                >
+                  {shareStatus === 'copied'
+                    ? 'Link Copied!'
+                    : shareStatus === 'too-large'
+                      ? 'Grid Too Large to Share'
+                      : shareStatus === 'failed'
+                        ? 'Could Not Copy Link'
+                        : 'Copy Link'}
+                </button>
+                {uncopiedLink && (
+                  <input
+                    readOnly
+                    value={uncopiedLink}
+                    onFocus={e => e.target.select()}
+                    aria-label="Share link, copy it by hand"
+                    className="w-full px-3 py-2 text-xs font-mono text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg"
+                  />
+                )}
+
+                <button
+                  onClick={() => setIsImportOpen(true)}
+                  className="w-full px-4 py-2 bg-slate-600 dark:bg-slate-700 text-white rounded-lg hover:bg-slate-700 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 transition-colors"
+                >
+                  Import Tokens
+                </button>
+
+                <button
+                  onClick={() => setIsScaleOpen(true)}
+                  className="w-full px-4 py-2 bg-slate-600 dark:bg-slate-700 text-white rounded-lg hover:bg-slate-700 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 transition-colors"
+                >
+                  Generate Scale
+                </button>
+
+                <button
+                  onClick={() => setIsImageOpen(true)}
+                  className="w-full px-4 py-2 bg-slate-600 dark:bg-slate-700 text-white rounded-lg hover:bg-slate-700 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 transition-colors"
+                >
+                  Colors from Image
+                </button>
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-200 mb-1">
+                    Export
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                      <button
+                        key={format}
+                        onClick={() => handleExport(format)}
+                        className="px-2 py-1 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                      >
+                        {EXPORT_FORMATS[format].label}
+                      </button>
+                    ))}
+                    {(Object.keys(TOKEN_EXPORT_FORMATS) as TokenExportFormat[]).map(format => (
+                      <button
+                        key={format}
+                        onClick={() => handleTokenExport(format)}
+                        className="px-2 py-1 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                      >
+                        {TOKEN_EXPORT_FORMATS[format].label}
+                      </button>
+                    ))}
+                  </div>
+                  <label className="flex items-center gap-2 mt-2 text-sm text-slate-600 dark:text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={exportAll}
+                      onChange={(e) => setExportAll(e.target.checked)}
+                    />
+                    Include hidden and filtered-out colors
+                  </label>
+                </div>
+
                 <button
                   onClick={handleClear}
                   className="w-full px-4 py-2 bg-red-600 dark:bg-red-700 text-white rounded-lg hover:bg-red-700 dark:hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 transition-colors"
@@ -553,194 +2066,442 @@ const App: React.FC = () => {
           </div>
 
           <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm overflow-hidden">
-            <div className="relative">
-              <div className="overflow-x-auto">
-                <table className="w-full border-collapse">
-                  <thead>
-                    <tr>
-                      <th className="sticky left-0 z-20 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 p-3 min-w-[200px] shadow-[2px_0_5px_-2px_rgba(0,0,0,0.1)]">
-                        Contrast Ratios
-                      </th>
-                      {foregroundColors.map((fgColor, index) => (
+            <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-slate-200 dark:border-slate-700">
+              <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700" role="group" aria-label="Layout">
+                {viewModes.map((option, index) => (
+                  <button
+                    key={option.value}
+                    aria-pressed={layout === option.value}
+                    className={`px-3 py-1 text-sm ${
+                      index === 0 ? 'rounded-l-lg' : ''
+                    } ${
+                      index === viewModes.length - 1 ? 'rounded-r-lg' : ''
+                    } ${
+                      layout === option.value
+                        ? 'bg-slate-600 text-white'
+                        : 'text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+                    }`}
+                    onClick={() => setViewMode(option.value)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              {hasThemes(themes) && layout !== 'compare' && (
+                <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700" role="group" aria-label="Theme">
+                  {themes.map((theme, index) => (
+                    <button
+                      key={theme}
+                      aria-pressed={activeTheme === theme}
+                      className={`px-3 py-1 text-sm ${
+                        index === 0 ? 'rounded-l-lg' : ''
+                      } ${
+                        index === themes.length - 1 ? 'rounded-r-lg' : ''
+                      } ${
+                        activeTheme === theme
+                          ? 'bg-slate-600 text-white'
+                          : 'text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'
+                      }`}
+                      onClick={() => setSelectedTheme(theme)}
+                    >
+                      {theme}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-center gap-3 ml-auto">
+                <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={linked}
+                    onChange={(e) => handleLinkedChange(e.target.checked)}
+                  />
+                  Same colors on both axes
+                </label>
+                <button
+                  onClick={handleTranspose}
+                  disabled={linked}
+                  className="px-3 py-1 text-sm text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-600 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50 transition-colors"
+                  title="Swap the foreground and background lists"
+                >
+                  Transpose
+                </button>
+              </div>
+            </div>
+            {layout === 'matrix' && (selectedColumns.length > 0 || selectedRows.length > 0) && (
+              <SelectionBar
+                columns={selectedColumns.length}
+                rows={selectedRows.length}
+                linked={linked}
+                onAdjust={adjustSelected}
+                onMove={moveSelected}
+                onDelete={deleteSelected}
+                onClear={() => setSelection({ fg: [], bg: [] })}
+              />
+            )}
+            {layout === 'compare' && hasThemes(themes) ? (
+              <ThemeCompare
+                themes={themes}
+                activeTheme={activeTheme}
+                matrices={themes.map(theme => buildThemeMatrix(theme, themes))}
+                onSelectTheme={(theme) => {
+                  setSelectedTheme(theme);
+                  setViewMode('matrix');
+                }}
+              />
+            ) : layout === 'pairs' ? (
+              <PairList
+                pairs={pairs}
+                foregroundColors={foregroundColors}
+                backgroundColors={backgroundColors}
+                algorithm={algorithm}
+                surface={surface}
+                cvd={cvd}
+                defaultTarget={targetSettings.target}
+                custom={targetSettings.custom}
+                onChange={setPairs}
+                onEditColor={toggleColorPicker}
+              />
+            ) : (
+              <div className="relative">
+                <div ref={gridRef} className="overflow-auto max-h-[75vh]" onScroll={gridWindow.onScroll}>
+                  <table
+                    className="w-full border-collapse"
+                    role="grid"
+                    aria-rowcount={view.rows.length + 1}
+                    aria-colcount={view.columns.length + 1}
+                  >
+                    <caption className="sr-only">
+                      {`Contrast of ${view.columns.length} foreground colors (columns) against ${view.rows.length} background colors (rows), measured with ${algorithm.name}. Use the arrow keys to move between cells and Alt+Arrow on a swatch to reorder.`}
+                    </caption>
+                    <thead>
+                      <tr aria-rowindex={1}>
                         <th
-                          key={index}
-                          className="group border border-slate-200 dark:border-slate-700 p-2 min-w-[120px] bg-slate-50 dark:bg-slate-800 relative"
+                          scope="col"
+                          aria-colindex={1}
+                          data-grid-corner
+                          className="sticky left-0 top-0 z-30 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 p-3 min-w-[200px] shadow-[2px_0_5px_-2px_rgba(0,0,0,0.1)]"
                         >
-                          <div
-                            className="absolute z-50 w-6 top-0 bottom-0 left-0 cursor-grab active:cursor-grabbing hover:bg-slate-600 hover:bg-opacity-20 opacity-0 group-hover:opacity-100"
-                            draggable="true"
-                            onDragStart={(e) =>
-                              handleDragStart(e, index, "column")
-                            }
-                            onDragOver={(e) =>
-                              handleDragOver(e, index, "column")
-                            }
-                            onDragEnd={() => handleDragEnd("column")}
-                          />
-                          <div
-                            className="absolute z-50 w-6 top-0 bottom-0 right-0 cursor-grab active:cursor-grabbing hover:bg-slate-600 hover:bg-opacity-20 opacity-0 group-hover:opacity-100"
-                            draggable="true"
-                            onDragStart={(e) =>
-                              handleDragStart(e, index, "column")
-                            }
-                            onDragOver={(e) =>
-                              handleDragOver(e, index, "column")
-                            }
-                            onDragEnd={() => handleDragEnd("column")}
-                          />
-                          <div className="flex flex-col items-center gap-1 relative z-10">
-                            <ColorSwatch
-                              color={fgColor.color}
-                              onClick={() => {
-                                if (
-                                  activeColorPicker?.type === "foreground" &&
-                                  activeColorPicker.index === index
-                                ) {
-                                  setActiveColorPicker(null);
-                                } else {
-                                  setActiveColorPicker({
-                                    type: "foreground",
-                                    index,
-                                  });
-                                }
-                              }}
-                              dataIndex={`foreground-${index}`}
-                            />
-                            {fgColor.label && (
-                              <span className="font-medium text-slate-900 dark:text-slate-100 text-sm">
-                                {fgColor.label}
-                              </span>
-                            )}
-                            <span className="text-xs text-slate-500 dark:text-slate-400">
-                              {fgColor.color}
-                            </span>
-                          </div>
+                          Contrast Ratios
                         </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {backgroundColors.map((bgColor, rowIndex) => (
-                      <tr key={rowIndex} className="group">
-                        <td className="sticky left-0 z-20 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 p-3 min-w-[200px] shadow-[2px_0_5px_-2px_rgba(0,0,0,0.1)] relative">
-                          <div
-                            className="absolute left-0 right-0 top-0 h-4 cursor-grab active:cursor-grabbing hover:bg-slate-600 hover:bg-opacity-20 z-50 opacity-0 group-hover:opacity-100"
-                            draggable="true"
-                            onDragStart={(e) =>
-                              handleDragStart(e, rowIndex, "row")
-                            }
-                            onDragOver={(e) =>
-                              handleDragOver(e, rowIndex, "row")
-                            }
-                            onDragEnd={() => handleDragEnd("row")}
-                          />
-                          <div
-                            className="absolute left-0 right-0 bottom-0 h-4 cursor-grab active:cursor-grabbing hover:bg-slate-600 hover:bg-opacity-20 z-50 opacity-0 group-hover:opacity-100"
-                            draggable="true"
-                            onDragStart={(e) =>
-                              handleDragStart(e, rowIndex, "row")
-                            }
-                            onDragOver={(e) =>
-                              handleDragOver(e, rowIndex, "row")
-                            }
-                            onDragEnd={() => handleDragEnd("row")}
-                          />
-                          <div className="flex flex-col items-center gap-1 relative z-10">
-                            <ColorSwatch
-                              color={bgColor.color}
-                              onClick={() => {
-                                if (
-                                  activeColorPicker?.type === "background" &&
-                                  activeColorPicker.index === rowIndex
-                                ) {
-                                  setActiveColorPicker(null);
-                                } else {
-                                  setActiveColorPicker({
-                                    type: "background",
-                                    index: rowIndex,
-                                  });
-                                }
-                              }}
-                              dataIndex={`background-${rowIndex}`}
-                            />
-                            {bgColor.label && (
-                              <span className="font-medium text-slate-900 dark:text-slate-100 text-sm">
-                                {bgColor.label}
-                              </span>
+                        {gridWindow.columns.before > 0 && (
+                          <th aria-hidden="true" className="p-0" style={{ minWidth: gridWindow.columns.before }} />
+                        )}
+                        {windowForeground.map(({ entry: fgColor, index, position }) => (
+                          <th
+                            key={fgColor.id ?? index}
+                            scope="col"
+                            aria-colindex={position + 2}
+                            aria-selected={isSelected('fg', fgColor)}
+                            data-grid-column
+                            className={`group sticky top-0 z-20 border border-slate-200 dark:border-slate-700 p-2 min-w-[120px] ${
+                              isSelected('fg', fgColor) ? 'bg-primary-50 dark:bg-slate-700' : 'bg-slate-50 dark:bg-slate-800'
+                            }`}
+                          >
+                            {canReorderColumns && (
+                              <>
+                                <div
+                                  className="absolute z-50 w-6 top-0 bottom-0 left-0 cursor-grab active:cursor-grabbing hover:bg-slate-600 hover:bg-opacity-20 opacity-0 group-hover:opacity-100"
+                                  draggable="true"
+                                  aria-hidden="true"
+                                  onDragStart={(e) =>
+                                    handleDragStart(e, index, "column")
+                                  }
+                                  onDragOver={(e) =>
+                                    handleDragOver(e, index, "column")
+                                  }
+                                  onDragEnd={() => handleDragEnd("column")}
+                                />
+                                <div
+                                  className="absolute z-50 w-6 top-0 bottom-0 right-0 cursor-grab active:cursor-grabbing hover:bg-slate-600 hover:bg-opacity-20 opacity-0 group-hover:opacity-100"
+                                  draggable="true"
+                                  aria-hidden="true"
+                                  onDragStart={(e) =>
+                                    handleDragStart(e, index, "column")
+                                  }
+                                  onDragOver={(e) =>
+                                    handleDragOver(e, index, "column")
+                                  }
+                                  onDragEnd={() => handleDragEnd("column")}
+                                />
+                              </>
                             )}
-                            <span className="text-xs text-slate-500 dark:text-slate-400">
-                              {bgColor.color}
-                            </span>
-                          </div>
-                        </td>
-                        {foregroundColors.map((fgColor, colIndex) => {
-                          const ratio =
-                            isValidColor(fgColor.color) &&
-                            isValidColor(bgColor.color)
-                              ? getRatio(fgColor.color, bgColor.color)
-                              : 0;
-
-                          return (
-                            <td
-                              key={colIndex}
-                              className="border border-slate-200 dark:border-slate-700 p-4 min-w-[120px] min-h-[100px]"
-                              style={{
-                                backgroundColor: isValidColor(bgColor.color)
-                                  ? bgColor.color
-                                  : "transparent",
-                                color: isValidColor(fgColor.color)
-                                  ? fgColor.color
-                                  : "inherit",
-                              }}
-                            >
-                              <div className="flex flex-col items-center justify-center h-full">
-                                <span className="text-lg font-bold">
-                                  {ratio.toFixed(2)}
+                            <div className="flex flex-col items-center gap-1 relative z-10">
+                              <ColorSwatch
+                                color={isValidColor(fgColor.color) ? simulate(fgColor.color) : fgColor.color}
+                                label={`Edit foreground ${getEntryName(fgColor)}, column ${index + 1}`}
+                                isOpen={activeColorPicker?.type === "foreground" && activeColorPicker.index === index}
+                                onClick={() => toggleColorPicker("foreground", index)}
+                                onKeyDown={(e) => handleSwatchKeyDown(e, "column", index)}
+                                dataIndex={`foreground-${index}`}
+                              />
+                              {fgColor.label && (
+                                <span className="font-medium text-slate-900 dark:text-slate-100 text-sm">
+                                  {fgColor.label}
                                 </span>
-                                <div className="text-xs mt-1">
-                                  {getContrastLabel(ratio)}
-                                </div>
+                              )}
+                              <span className="text-xs text-slate-500 dark:text-slate-400">
+                                {fgColor.color}
+                              </span>
+                              <TargetSelect
+                                value={fgColor.target}
+                                onChange={(target) => handleTargetChange("foreground", index, target)}
+                              />
+                              <div className="flex items-center gap-2">
+                                <label className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+                                  <input
+                                    type="checkbox"
+                                    checked={isSelected('fg', fgColor)}
+                                    onChange={(e) => toggleSelected('fg', position, (e.nativeEvent as MouseEvent).shiftKey)}
+                                    aria-label={`Select foreground ${getEntryName(fgColor)}`}
+                                  />
+                                  Select
+                                </label>
+                                <button
+                                  className="text-xs text-slate-500 dark:text-slate-400 underline hover:text-slate-900 dark:hover:text-slate-200"
+                                  onClick={() => setHidden("foreground", index, true)}
+                                  aria-label={`Hide ${getEntryName(fgColor)}`}
+                                >
+                                  Hide
+                                </button>
                               </div>
-                            </td>
-                          );
-                        })}
+                            </div>
+                          </th>
+                        ))}
+                        {gridWindow.columns.after > 0 && (
+                          <th aria-hidden="true" className="p-0" style={{ minWidth: gridWindow.columns.after }} />
+                        )}
                       </tr>
-                    ))}
-                  </tbody>
-                </table>
+                    </thead>
+                    <tbody>
+                      {gridWindow.rows.before > 0 && (
+                        <tr aria-hidden="true" style={{ height: gridWindow.rows.before }}>
+                          <td colSpan={windowForeground.length + 3} className="p-0" />
+                        </tr>
+                      )}
+                      {windowBackground.map(({ entry: bgColor, index: rowIndex, position: rowPosition }) => (
+                        <tr key={bgColor.id ?? rowIndex} className="group" aria-rowindex={rowPosition + 2} data-grid-row>
+                          <td
+                            role="rowheader"
+                            aria-colindex={1}
+                            aria-selected={isSelected('bg', bgColor)}
+                            className={`sticky left-0 z-20 border border-slate-200 dark:border-slate-700 p-3 min-w-[200px] shadow-[2px_0_5px_-2px_rgba(0,0,0,0.1)] relative ${
+                              isSelected('bg', bgColor) ? 'bg-primary-50 dark:bg-slate-700' : 'bg-slate-50 dark:bg-slate-800'
+                            }`}
+                          >
+                            {canReorderRows && (
+                              <>
+                                <div
+                                  className="absolute left-0 right-0 top-0 h-4 cursor-grab active:cursor-grabbing hover:bg-slate-600 hover:bg-opacity-20 z-50 opacity-0 group-hover:opacity-100"
+                                  draggable="true"
+                                  aria-hidden="true"
+                                  onDragStart={(e) =>
+                                    handleDragStart(e, rowIndex, "row")
+                                  }
+                                  onDragOver={(e) =>
+                                    handleDragOver(e, rowIndex, "row")
+                                  }
+                                  onDragEnd={() => handleDragEnd("row")}
+                                />
+                                <div
+                                  className="absolute left-0 right-0 bottom-0 h-4 cursor-grab active:cursor-grabbing hover:bg-slate-600 hover:bg-opacity-20 z-50 opacity-0 group-hover:opacity-100"
+                                  draggable="true"
+                                  aria-hidden="true"
+                                  onDragStart={(e) =>
+                                    handleDragStart(e, rowIndex, "row")
+                                  }
+                                  onDragOver={(e) =>
+                                    handleDragOver(e, rowIndex, "row")
+                                  }
+                                  onDragEnd={() => handleDragEnd("row")}
+                                />
+                              </>
+                            )}
+                            <div className="flex flex-col items-center gap-1 relative z-10">
+                              <ColorSwatch
+                                color={simulate(bgColor.color)}
+                                label={`Edit background ${getEntryName(bgColor)}, row ${rowIndex + 1}`}
+                                isOpen={activeColorPicker?.type === "background" && activeColorPicker.index === rowIndex}
+                                onClick={() => toggleColorPicker("background", rowIndex)}
+                                onKeyDown={(e) => handleSwatchKeyDown(e, "row", rowIndex)}
+                                dataIndex={`background-${rowIndex}`}
+                              />
+                              {bgColor.label && (
+                                <span className="font-medium text-slate-900 dark:text-slate-100 text-sm">
+                                  {bgColor.label}
+                                </span>
+                              )}
+                              <span className="text-xs text-slate-500 dark:text-slate-400">
+                                {bgColor.color}
+                              </span>
+                              <TargetSelect
+                                value={bgColor.target}
+                                onChange={(target) => handleTargetChange("background", rowIndex, target)}
+                              />
+                              <div className="flex items-center gap-2">
+                                <label className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+                                  <input
+                                    type="checkbox"
+                                    checked={isSelected('bg', bgColor)}
+                                    onChange={(e) => toggleSelected('bg', rowPosition, (e.nativeEvent as MouseEvent).shiftKey)}
+                                    aria-label={`Select background ${getEntryName(bgColor)}`}
+                                  />
+                                  Select
+                                </label>
+                                <button
+                                  className="text-xs text-slate-500 dark:text-slate-400 underline hover:text-slate-900 dark:hover:text-slate-200"
+                                  onClick={() => setHidden("background", rowIndex, true)}
+                                  aria-label={`Hide ${getEntryName(bgColor)}`}
+                                >
+                                  Hide
+                                </button>
+                              </div>
+                            </div>
+                          </td>
+                          {gridWindow.columns.before > 0 && (
+                            <td aria-hidden="true" className="p-0" style={{ minWidth: gridWindow.columns.before }} />
+                          )}
+                          {windowForeground.map(({ entry: fgColor, index: colIndex, position: columnPosition }) => (
+                            <GridCell
+                              key={fgColor.id ?? colIndex}
+                              row={rowIndex}
+                              column={colIndex}
+                              rowPosition={rowPosition}
+                              columnPosition={columnPosition}
+                              foreground={fgColor.color}
+                              background={bgColor.color}
+                              description={isDiagonal(rowIndex, colIndex)
+                                ? `${getEntryName(fgColor)} on itself`
+                                : `${getEntryName(fgColor)} on ${getEntryName(bgColor)}`}
+                              levels={getLevels(resolveTargetId(targetSettings.target, bgColor.target, fgColor.target))}
+                              algorithm={algorithm}
+                              surface={surface}
+                              simulate={simulate}
+                              recompute={cvd.recompute}
+                              preview={textPreview}
+                              isDiagonal={isDiagonal(rowIndex, colIndex)}
+                              isTabbable={tabbableCell.row === rowPosition && tabbableCell.column === columnPosition}
+                              isFilteredOut={!matchesFilter(viewMatrix.cells[rowIndex][colIndex], gridView.filter)}
+                              suggestion={suggestion?.row === rowIndex && suggestion.column === colIndex ? suggestion : null}
+                              actions={cellActions}
+                            />
+                          ))}
+                          {gridWindow.columns.after > 0 && (
+                            <td aria-hidden="true" className="p-0" style={{ minWidth: gridWindow.columns.after }} />
+                          )}
+                        </tr>
+                      ))}
+                      {gridWindow.rows.after > 0 && (
+                        <tr aria-hidden="true" style={{ height: gridWindow.rows.after }}>
+                          <td colSpan={windowForeground.length + 3} className="p-0" />
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                  {(view.rows.length === 0 || view.columns.length === 0) && (
+                    <p className="p-6 text-sm text-center text-slate-500 dark:text-slate-400">
+                      No cells to show. Change the filter or show hidden colors.
+                    </p>
+                  )}
+                </div>
               </div>
-            </div>
+            )}
           </div>
 
+          {layout === 'matrix' && (
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-6 space-y-4">
+              <h3 className="text-lg font-medium text-slate-900 dark:text-white">
+                Summary
+              </h3>
+              <div className="flex flex-wrap gap-2 text-sm">
+                <span className="px-2 py-1 rounded bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200">
+                  {summary.passing} of {summary.total} pairs pass
+                </span>
+                {summary.levels.map(level => (
+                  <span
+                    key={level.label}
+                    className="px-2 py-1 rounded border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300"
+                  >
+                    {level.label}: {level.count}
+                  </span>
+                ))}
+              </div>
+              {summary.safeBackgrounds.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-slate-700 dark:text-slate-200 mb-2">
+                    Safe backgrounds per foreground
+                  </h4>
+                  <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                    {summary.safeBackgrounds.map(({ column, rows }) => (
+                      <div key={column} className="flex gap-2">
+                        <dt className="font-medium text-slate-900 dark:text-slate-100 shrink-0">
+                          {getEntryName(foregroundColors[column])}:
+                        </dt>
+                        <dd className="text-slate-600 dark:text-slate-300">
+                          {rows.length > 0
+                            ? rows.map(row => getEntryName(backgroundColors[row])).join(', ')
+                            : 'None'}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm border-slate-800 p-6">
             <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-4">
-              Legend
+              Legend ({algorithm.name})
             </h3>
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-              <div className="flex items-center space-x-2">
-                <span className="text-emerald-600 dark:text-emerald-500 font-bold">
-                  AAA
-                </span>
-                <span className="text-slate-600 dark:text-slate-300">
-                  Contrast ratio ≥ 7.0
-                </span>
-              </div>
-              <div className="flex items-center space-x-2">
-                <span className="text-sky-600 dark:text-sky-500 font-bold">
-                  AA
-                </span>
-                <span className="text-slate-600 dark:text-slate-300">
-                  Contrast ratio ≥ 4.5
-                </span>
-              </div>
-              <div className="flex items-center space-x-2">
-                <span className="text-red-600 dark:text-red-500 font-bold">
-                  ✕
-                </span>
-                <span className="text-slate-600 dark:text-slate-300">
-                  Failed contrast ratio
-                </span>
-              </div>
+            <div className="space-y-6">
+              {targetsInUse.map(target => {
+                const levels = getLevels(target);
+                return (
+                  <div key={target}>
+                    <h4 className="text-sm font-medium text-slate-700 dark:text-slate-200 mb-2">
+                      {getTargetProfile(target, targetSettings.custom).name}
+                      {target === targetSettings.target ? ' (default)' : ' (override)'}
+                    </h4>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                      {levels.map((level, index) => (
+                        <div key={`${level.label}-${index}`} className="flex items-center space-x-2">
+                          <span
+                            className={`font-bold ${
+                              index === 0
+                                ? 'text-emerald-600 dark:text-emerald-500'
+                                : 'text-sky-600 dark:text-sky-500'
+                            }`}
+                          >
+                            {level.label}
+                          </span>
+                          <span className="text-slate-600 dark:text-slate-300">
+                            {level.description}
+                          </span>
+                        </div>
+                      ))}
+                      <div className="flex items-center space-x-2">
+                        <span className="text-red-600 dark:text-red-500 font-bold">
+                          ✕
+                        </span>
+                        <span className="text-slate-600 dark:text-slate-300">
+                          {levels.length > 0
+                            ? `Below ${levels[levels.length - 1].label}`
+                            : 'No thresholds defined'}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+
+              {targetsInUse.includes('custom') && (
+                <CustomLevelsEditor
+                  levels={targetSettings.custom[algorithmId]}
+                  unit={algorithm.id === 'apca' ? '|Lc|' : 'Ratio'}
+                  onChange={updateCustomLevels}
+                />
+              )}
             </div>
           </div>
         </div>
@@ -778,7 +2539,13 @@ const App: React.FC = () => {
               : backgroundColors[activeColorPicker.index].color
           }
           onChange={handleColorChange}
-          onClose={() => setActiveColorPicker(null)}
+          onClose={() => setOpenPicker(null)}
+          pairs={getPickerPairs()}
+          title={`Edit ${getEntryName(
+            activeColorPicker.type === "foreground"
+              ? foregroundColors[activeColorPicker.index]
+              : backgroundColors[activeColorPicker.index]
+          )}`}
           triggerRect={document
             .querySelector(
               `[data-color-index="${activeColorPicker.type}-${activeColorPicker.index}"]`
@@ -786,6 +2553,28 @@ const App: React.FC = () => {
             ?.getBoundingClientRect()}
         />
       )}
+
+      {isImportOpen && (
+        <ImportDialog
+          onImport={handleImport}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
+      {isScaleOpen && (
+        <ScaleDialog
+          algorithm={algorithm}
+          onInsert={handleInsertEntries}
+          onClose={() => setIsScaleOpen(false)}
+        />
+      )}
+
+      {isImageOpen && (
+        <ImageDialog
+          onInsert={handleInsertEntries}
+          onClose={() => setIsImageOpen(false)}
+        />
+      )}
     </div>
   );
 };
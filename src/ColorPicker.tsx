@@ -0,0 +1,298 @@
+import React, { useRef, useState } from 'react';
+import chroma from 'chroma-js';
+import {
+  CHANNELS,
+  COLOR_MODES,
+  ChannelSpec,
+  Channels,
+  ColorMode,
+  fromChannels,
+  getSwatchBackground,
+  toChannels,
+} from './colorSpaces';
+import { isValidColor, parseCssColor, toChroma } from './cssColor';
+import { useDialogFocus } from './useDialogFocus';
+
+export interface PairedColor {
+  label: string;
+  color: string;
+  value: string;
+  passes: boolean;
+}
+
+interface ColorPickerProps {
+  color: string;
+  onChange: (newColor: string) => void;
+  onClose: () => void;
+  triggerRect?: DOMRect;
+  // Colors on the other axis, with the live contrast against the picked color
+  pairs?: PairedColor[];
+  // Accessible name of the dialog, e.g. the entry being edited
+  title?: string;
+}
+
+const PICKER_WIDTH = 300;
+const PICKER_HEIGHT = 560;
+
+const ColorSlider: React.FC<{
+  spec: ChannelSpec;
+  value: number;
+  onChange: (value: number) => void;
+}> = ({ spec, value, onChange }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between">
+      <label className="text-sm font-medium text-gray-700 dark:text-gray-200">{spec.label}</label>
+      <span className="text-sm text-gray-500">{value.toFixed(spec.precision)}</span>
+    </div>
+    <input
+      aria-label={spec.label}
+      aria-valuetext={value.toFixed(spec.precision)}
+      type="range"
+      min={spec.min}
+      max={spec.max}
+      step={spec.step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full"
+    />
+  </div>
+);
+
+// Saturation/value square for the current hue
+const SaturationArea: React.FC<{
+  hue: number;
+  saturation: number;
+  value: number;
+  onChange: (saturation: number, value: number) => void;
+}> = ({ hue, saturation, value, onChange }) => {
+  const updateFromPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    onChange(x * 100, (1 - y) * 100);
+  };
+
+  // Left/right adjust saturation, up/down adjust value; Shift takes bigger steps
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = e.shiftKey ? 10 : 1;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, step],
+      ArrowDown: [0, -step],
+    };
+    const move = moves[e.key];
+    if (!move) return;
+    e.preventDefault();
+    onChange(
+      Math.min(100, Math.max(0, saturation + move[0])),
+      Math.min(100, Math.max(0, value + move[1]))
+    );
+  };
+
+  return (
+    <div
+      role="slider"
+      tabIndex={0}
+      aria-label="Saturation and value"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(saturation)}
+      aria-valuetext={`Saturation ${saturation.toFixed(0)}%, value ${value.toFixed(0)}%`}
+      onKeyDown={handleKeyDown}
+      className="relative h-32 rounded-lg cursor-crosshair touch-none focus:outline-none focus:ring-2 focus:ring-slate-500"
+      style={{
+        background: `linear-gradient(to top, #000, transparent), linear-gradient(to right, #fff, hsl(${hue}, 100%, 50%))`,
+      }}
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        updateFromPointer(e);
+      }}
+      onPointerMove={(e) => {
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) updateFromPointer(e);
+      }}
+    >
+      <div
+        className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2 border-white shadow pointer-events-none"
+        style={{ left: `${saturation}%`, top: `${100 - value}%` }}
+      />
+    </div>
+  );
+};
+
+const ColorPicker: React.FC<ColorPickerProps> = ({ color, onChange, onClose, triggerRect, pairs = [], title = 'Edit color' }) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, onClose);
+
+  const [mode, setMode] = useState<ColorMode>('hsl');
+  const [channels, setChannels] = useState<Channels>(() => toChannels(toChroma(color), 'hsl'));
+  const [alpha, setAlpha] = useState<number>(() => toChroma(color).alpha() * 100);
+  const [text, setText] = useState<string | null>(null);
+
+  const current = fromChannels(channels, mode);
+  const isOutOfGamut = (mode === 'oklch' || mode === 'lch') && current.clipped();
+  const hsv = mode === 'hsv' ? channels : toChannels(current, 'hsv');
+
+  // Open above the swatch when there is room, otherwise below it
+  const position = {
+    x: triggerRect ? Math.max(0, triggerRect.left + (triggerRect.width / 2) - PICKER_WIDTH / 2) : 100,
+    y: triggerRect
+      ? triggerRect.top > PICKER_HEIGHT
+        ? triggerRect.top - PICKER_HEIGHT
+        : triggerRect.bottom + 8
+      : 100
+  };
+
+  const emit = (newColor: chroma.Color, newAlpha: number) => {
+    try {
+      onChange(newColor.alpha(newAlpha / 100).hex());
+    } catch (e) {
+      console.error('Invalid color:', e);
+    }
+  };
+
+  const updateChannel = (index: number, value: number) => {
+    const newChannels = [...channels] as Channels;
+    newChannels[index] = value;
+    setChannels(newChannels);
+    emit(fromChannels(newChannels, mode), alpha);
+  };
+
+  const updateSaturationValue = (saturation: number, value: number) => {
+    const newColor = chroma.hsv(hsv[0], saturation / 100, value / 100);
+    setChannels(mode === 'hsv' ? [hsv[0], saturation, value] : toChannels(newColor, mode, channels));
+    emit(newColor, alpha);
+  };
+
+  const updateAlpha = (newAlpha: number) => {
+    setAlpha(newAlpha);
+    emit(current, newAlpha);
+  };
+
+  const switchMode = (newMode: ColorMode) => {
+    // Convert from the unrounded current color so switching modes never drifts
+    setChannels(toChannels(current, newMode));
+    setMode(newMode);
+  };
+
+  const updateText = (value: string) => {
+    setText(value);
+    const { color: parsed } = parseCssColor(value);
+    if (!parsed) return;
+    setChannels(toChannels(parsed, mode, channels));
+    setAlpha(parsed.alpha() * 100);
+    emit(parsed, parsed.alpha() * 100);
+  };
+
+  const previewColor = current.alpha(alpha / 100).hex();
+  const isTextValid = text === null || isValidColor(text);
+
+  return (
+    <div className="fixed inset-0 z-50" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        className="absolute bg-white dark:bg-gray-800 rounded-lg shadow-2xl border border-gray-200 dark:border-gray-700 max-h-[90vh] overflow-y-auto"
+        style={{
+          left: position.x,
+          top: position.y,
+          width: PICKER_WIDTH,
+        }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4">
+          <div className="mb-3 h-12 rounded-lg shadow-inner" style={{ background: getSwatchBackground(previewColor) }} />
+
+          <SaturationArea
+            hue={hsv[0]}
+            saturation={hsv[1]}
+            value={hsv[2]}
+            onChange={updateSaturationValue}
+          />
+
+          <div className="flex justify-center my-3">
+            <div className="inline-flex rounded-lg border border-gray-200 dark:border-gray-700">
+              {COLOR_MODES.map((option, index) => (
+                <button
+                  key={option.value}
+                  aria-pressed={mode === option.value}
+                  className={`px-2 py-1 text-xs ${
+                    index === 0 ? 'rounded-l-lg' : ''
+                  } ${
+                    index === COLOR_MODES.length - 1 ? 'rounded-r-lg' : ''
+                  } ${
+                    mode === option.value
+                      ? 'bg-slate-600 text-white'
+                      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                  }`}
+                  onClick={() => switchMode(option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {CHANNELS[mode].map((spec, index) => (
+              <ColorSlider
+                key={`${mode}-${spec.label}`}
+                spec={spec}
+                value={channels[index]}
+                onChange={(value) => updateChannel(index, value)}
+              />
+            ))}
+            <ColorSlider
+              spec={{ label: 'Alpha', min: 0, max: 100, step: 1, precision: 0 }}
+              value={alpha}
+              onChange={updateAlpha}
+            />
+          </div>
+
+          {isOutOfGamut && (
+            <div className="mt-2 text-xs text-amber-600 dark:text-amber-400" role="status">
+              Outside the sRGB gamut, shown clipped to {current.hex('rgb').toUpperCase()}
+            </div>
+          )}
+
+          <input
+            className={`mt-3 w-full px-2 py-1 font-mono text-sm text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 border rounded ${
+              isTextValid ? 'border-gray-200 dark:border-gray-600' : 'border-red-500'
+            }`}
+            value={text ?? previewColor.toUpperCase()}
+            onFocus={() => setText(previewColor.toUpperCase())}
+            onChange={(e) => updateText(e.target.value)}
+            onBlur={() => setText(null)}
+            aria-label="Hex or CSS color"
+            spellCheck={false}
+          />
+
+          {pairs.length > 0 && (
+            <ul className="mt-3 space-y-1 text-xs max-h-32 overflow-y-auto" aria-label="Contrast with paired colors">
+              {pairs.map((pair, index) => (
+                <li key={index} className="flex items-center gap-2">
+                  <span
+                    className="w-4 h-4 rounded border border-gray-200 shrink-0"
+                    style={{ background: getSwatchBackground(pair.color) }}
+                  />
+                  <span className="flex-1 truncate text-gray-600 dark:text-gray-300">{pair.label}</span>
+                  <span className="font-mono text-gray-700 dark:text-gray-200">{pair.value}</span>
+                  <span
+                    className={pair.passes ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}
+                    aria-label={pair.passes ? 'Passes' : 'Fails'}
+                  >
+                    {pair.passes ? '✓' : '✕'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColorPicker;
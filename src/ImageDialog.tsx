@@ -0,0 +1,346 @@
+import React, { useEffect, useRef, useState } from 'react';
+import chroma from 'chroma-js';
+import { DEFAULT_PALETTE_SIZE, MAX_PALETTE_SIZE, SAMPLE_SIZE, extractPalette } from './imagePalette';
+import { ScalePlacement } from './ScaleDialog';
+import { ColorEntry } from './types';
+import { useDialogFocus } from './useDialogFocus';
+
+interface ImageDialogProps {
+  onInsert: (entries: ColorEntry[], placement: ScalePlacement, replace: boolean) => void;
+  onClose: () => void;
+}
+
+interface PickedColor {
+  color: string;
+  label: string;
+}
+
+// Larger screenshots are scaled down when drawn; picking stays precise enough
+const MAX_IMAGE_SIZE = 2000;
+// The loupe shows this many image pixels across, each LOUPE_ZOOM screen pixels wide
+const LOUPE_PIXELS = 11;
+const LOUPE_ZOOM = 10;
+
+const INPUT_CLASS = 'px-2 py-1 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded';
+
+const ImageDialog: React.FC<ImageDialogProps> = ({ onInsert, onClose }) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const loupeRef = useRef<HTMLCanvasElement>(null);
+  useDialogFocus(dialogRef, onClose);
+
+  const [hasImage, setHasImage] = useState(false);
+  const [error, setError] = useState<string | undefined>();
+  const [prefix, setPrefix] = useState('image');
+  const [cursor, setCursor] = useState<{ x: number; y: number } | null>(null);
+  const [picked, setPicked] = useState<PickedColor[]>([]);
+  const [paletteSize, setPaletteSize] = useState(DEFAULT_PALETTE_SIZE);
+  const [placement, setPlacement] = useState<ScalePlacement>('row');
+  const [replace, setReplace] = useState(false);
+
+  const loadImage = (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      setError(`${file.name || 'The pasted file'} is not an image.`);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d', { willReadFrequently: true });
+      if (canvas && context) {
+        const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+        canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+        canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        setHasImage(true);
+        setError(undefined);
+        setCursor({ x: Math.floor(canvas.width / 2), y: Math.floor(canvas.height / 2) });
+        if (file.name) setPrefix(file.name.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'image');
+      }
+      URL.revokeObjectURL(url);
+    };
+    image.onerror = () => {
+      setError('This image could not be read.');
+      URL.revokeObjectURL(url);
+    };
+    image.src = url;
+  };
+
+  useEffect(() => {
+    // Screenshots are usually on the clipboard, so pasting anywhere works while open
+    const handlePaste = (e: ClipboardEvent) => {
+      const file = Array.from(e.clipboardData?.files ?? []).find(item => item.type.startsWith('image/'));
+      if (!file) return;
+      e.preventDefault();
+      loadImage(file);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
+  const colorAt = (x: number, y: number): string | undefined => {
+    const context = canvasRef.current?.getContext('2d', { willReadFrequently: true });
+    if (!context) return undefined;
+    const [r, g, b] = context.getImageData(x, y, 1, 1).data;
+    return chroma(r, g, b).hex().toUpperCase();
+  };
+
+  const cursorColor = hasImage && cursor ? colorAt(cursor.x, cursor.y) : undefined;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = loupeRef.current?.getContext('2d');
+    if (!canvas || !context || !cursor) return;
+    const half = Math.floor(LOUPE_PIXELS / 2);
+    const size = LOUPE_PIXELS * LOUPE_ZOOM;
+    context.imageSmoothingEnabled = false;
+    context.clearRect(0, 0, size, size);
+    context.drawImage(canvas, cursor.x - half, cursor.y - half, LOUPE_PIXELS, LOUPE_PIXELS, 0, 0, size, size);
+    context.strokeStyle = '#ffffff';
+    context.lineWidth = 2;
+    context.strokeRect(half * LOUPE_ZOOM, half * LOUPE_ZOOM, LOUPE_ZOOM, LOUPE_ZOOM);
+    context.strokeStyle = '#000000';
+    context.lineWidth = 1;
+    context.strokeRect(half * LOUPE_ZOOM - 1.5, half * LOUPE_ZOOM - 1.5, LOUPE_ZOOM + 3, LOUPE_ZOOM + 3);
+  }, [cursor, hasImage]);
+
+  const addColors = (colors: string[]) => {
+    const existing = new Set(picked.map(entry => entry.color));
+    const added = [...new Set(colors)].filter(color => !existing.has(color)).map(color => ({ color, label: '' }));
+    setPicked([...picked, ...added]);
+  };
+
+  // Image pixel under a mouse position; the canvas is scaled down to fit
+  const toImagePoint = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: Math.min(canvas.width - 1, Math.max(0, Math.floor(((e.clientX - rect.left) * canvas.width) / rect.width))),
+      y: Math.min(canvas.height - 1, Math.max(0, Math.floor(((e.clientY - rect.top) * canvas.height) / rect.height))),
+    };
+  };
+
+  const handleCanvasKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !cursor) return;
+    const step = e.shiftKey ? 10 : 1;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step],
+    };
+    if (moves[e.key]) {
+      e.preventDefault();
+      const [dx, dy] = moves[e.key];
+      setCursor({
+        x: Math.min(canvas.width - 1, Math.max(0, cursor.x + dx)),
+        y: Math.min(canvas.height - 1, Math.max(0, cursor.y + dy)),
+      });
+    } else if ((e.key === 'Enter' || e.key === ' ') && cursorColor) {
+      e.preventDefault();
+      addColors([cursorColor]);
+    }
+  };
+
+  const handleExtract = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    // Sampling a small copy keeps the median cut fast on large screenshots
+    const scale = Math.min(1, SAMPLE_SIZE / Math.max(canvas.width, canvas.height));
+    const sample = document.createElement('canvas');
+    sample.width = Math.max(1, Math.round(canvas.width * scale));
+    sample.height = Math.max(1, Math.round(canvas.height * scale));
+    const context = sample.getContext('2d');
+    if (!context) return;
+    context.drawImage(canvas, 0, 0, sample.width, sample.height);
+    const palette = extractPalette(context.getImageData(0, 0, sample.width, sample.height).data, paletteSize);
+    addColors(palette.map(entry => entry.color.toUpperCase()));
+  };
+
+  const updatePicked = (index: number, label: string) => {
+    setPicked(picked.map((entry, i) => (i === index ? { ...entry, label } : entry)));
+  };
+
+  const getLabel = (entry: PickedColor, index: number): string =>
+    entry.label.trim() || `${prefix.trim() || 'image'}-${index + 1}`;
+
+  const handleInsert = () => {
+    onInsert(picked.map((entry, index) => ({ color: entry.color, label: ` ${getLabel(entry, index)}` })), placement, replace);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-40 flex items-center justify-center" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="image-dialog-title"
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col border border-slate-200 dark:border-slate-700"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <h2 id="image-dialog-title" className="text-lg font-medium text-slate-900 dark:text-white">
+            Pick colors from an image
+          </h2>
+
+          <div
+            className="rounded-lg border-2 border-dashed border-slate-300 dark:border-slate-600 p-3 space-y-3"
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              const file = e.dataTransfer.files[0];
+              if (file) loadImage(file);
+            }}
+          >
+            <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600 dark:text-slate-300">
+              <input
+                type="file"
+                accept="image/*"
+                aria-label="Image file"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) loadImage(file);
+                }}
+                className="text-sm text-slate-600 dark:text-slate-300"
+              />
+              <span>or drop or paste a screenshot here</span>
+            </div>
+            {error && <p className="text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+
+            <div className={hasImage ? 'flex flex-col sm:flex-row gap-3 items-start' : 'hidden'}>
+              <canvas
+                ref={canvasRef}
+                tabIndex={0}
+                aria-label="Image. Move the eyedropper with the mouse or arrow keys (Shift for 10 pixels) and click or press Enter to pick a color."
+                className="max-w-full max-h-[50vh] min-w-0 cursor-crosshair border border-slate-200 dark:border-slate-700 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                style={{ imageRendering: 'pixelated' }}
+                onMouseMove={(e) => setCursor(toImagePoint(e))}
+                onClick={(e) => {
+                  const point = toImagePoint(e);
+                  setCursor(point);
+                  const color = colorAt(point.x, point.y);
+                  if (color) addColors([color]);
+                }}
+                onKeyDown={handleCanvasKeyDown}
+              />
+              <div className="shrink-0 flex flex-col items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                <canvas
+                  ref={loupeRef}
+                  width={LOUPE_PIXELS * LOUPE_ZOOM}
+                  height={LOUPE_PIXELS * LOUPE_ZOOM}
+                  className="rounded border border-slate-200 dark:border-slate-700"
+                  aria-hidden="true"
+                />
+                {cursorColor && (
+                  <span className="flex items-center gap-2 font-mono" aria-live="polite">
+                    <span className="w-4 h-4 rounded border border-slate-200" style={{ backgroundColor: cursorColor }} />
+                    {cursorColor}
+                  </span>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {hasImage && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+              <button
+                onClick={handleExtract}
+                className="px-3 py-1 bg-slate-600 text-white rounded-lg hover:bg-slate-700 transition-colors"
+              >
+                Extract palette
+              </button>
+              <label className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_PALETTE_SIZE}
+                  value={paletteSize}
+                  onChange={(e) => setPaletteSize(Math.min(MAX_PALETTE_SIZE, Math.max(1, Number(e.target.value) || 1)))}
+                  className={`${INPUT_CLASS} w-16`}
+                />
+                dominant colors
+              </label>
+            </div>
+          )}
+
+          {picked.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600 dark:text-slate-300">
+                <span>{picked.length} color{picked.length === 1 ? '' : 's'} picked</span>
+                <label className="flex items-center gap-2">
+                  Label prefix
+                  <input className={`${INPUT_CLASS} w-32`} value={prefix} onChange={(e) => setPrefix(e.target.value)} />
+                </label>
+                <button className="underline" onClick={() => setPicked([])}>Clear</button>
+              </div>
+              <ul className="divide-y divide-slate-200 dark:divide-slate-700 max-h-48 overflow-y-auto">
+                {picked.map((entry, index) => (
+                  <li key={entry.color} className="flex items-center gap-3 py-2">
+                    <span
+                      className="w-6 h-6 shrink-0 rounded border border-slate-200"
+                      style={{ backgroundColor: entry.color }}
+                      aria-hidden="true"
+                    />
+                    <span className="w-20 font-mono text-sm text-slate-700 dark:text-slate-200">{entry.color}</span>
+                    <input
+                      className={`${INPUT_CLASS} flex-1 min-w-0`}
+                      value={entry.label}
+                      placeholder={getLabel(entry, index)}
+                      onChange={(e) => updatePicked(index, e.target.value)}
+                      aria-label={`Label for ${entry.color}`}
+                    />
+                    <button
+                      className="text-sm text-red-600 dark:text-red-500 hover:underline"
+                      onClick={() => setPicked(picked.filter((_, i) => i !== index))}
+                      aria-label={`Remove ${entry.color}`}
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-t border-slate-200 dark:border-slate-700">
+          <div className="flex items-center gap-3 text-sm text-slate-600 dark:text-slate-300">
+            <select
+              className={INPUT_CLASS}
+              value={placement}
+              onChange={(e) => setPlacement(e.target.value as ScalePlacement)}
+              aria-label="Insert as"
+            >
+              <option value="row">As rows</option>
+              <option value="column">As columns</option>
+              <option value="both">As rows and columns</option>
+            </select>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={replace} onChange={(e) => setReplace(e.target.checked)} />
+              Replace existing colors
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-slate-700 dark:text-slate-200 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleInsert}
+              disabled={picked.length === 0}
+              className="px-4 py-2 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+            >
+              Insert {picked.length > 0 ? picked.length : ''}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageDialog;
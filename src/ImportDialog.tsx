@@ -0,0 +1,208 @@
+import React, { useRef, useState } from 'react';
+import {
+  ImportedToken,
+  TokenFormat,
+  TokenParseResult,
+  detectTokenFormat,
+  parseTokens,
+} from './tokens';
+import { useDialogFocus } from './useDialogFocus';
+
+type Placement = 'row' | 'column' | 'skip';
+
+interface ImportDialogProps {
+  onImport: (rows: ImportedToken[], columns: ImportedToken[], replace: boolean) => void;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { value: TokenFormat | 'auto'; label: string }[] = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'tailwind', label: 'Tailwind config' },
+  { value: 'css', label: 'CSS custom properties' },
+  { value: 'dtcg', label: 'W3C Design Tokens JSON' },
+];
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ onImport, onClose }) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, onClose);
+
+  const [source, setSource] = useState('');
+  const [fileName, setFileName] = useState<string | undefined>();
+  const [format, setFormat] = useState<TokenFormat | 'auto'>('auto');
+  const [result, setResult] = useState<TokenParseResult | null>(null);
+  const [placements, setPlacements] = useState<Placement[]>([]);
+  const [replace, setReplace] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setSource(await file.text());
+    setResult(null);
+  };
+
+  const handleParse = () => {
+    const parsed = parseTokens(
+      source,
+      format === 'auto' ? detectTokenFormat(source, fileName) : format
+    );
+    setResult(parsed);
+    setPlacements(parsed.tokens.map(() => 'skip'));
+  };
+
+  const setAllPlacements = (placement: Placement) => {
+    setPlacements(placements.map(() => placement));
+  };
+
+  const handleImport = () => {
+    if (!result) return;
+    const rows = result.tokens.filter((_, i) => placements[i] === 'row');
+    const columns = result.tokens.filter((_, i) => placements[i] === 'column');
+    onImport(rows, columns, replace);
+  };
+
+  const selectedCount = placements.filter(placement => placement !== 'skip').length;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-40 flex items-center justify-center" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-dialog-title"
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col border border-slate-200 dark:border-slate-700"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <h2 id="import-dialog-title" className="text-lg font-medium text-slate-900 dark:text-white">
+            Import design tokens
+          </h2>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="file"
+              aria-label="Token file"
+              accept=".json,.css,.js,.cjs,.mjs,.ts"
+              onChange={handleFile}
+              className="text-sm text-slate-600 dark:text-slate-300"
+            />
+            <select
+              aria-label="Token format"
+              className="px-3 py-1 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as TokenFormat | 'auto')}
+            >
+              {FORMAT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <textarea
+            className="w-full h-32 px-3 py-2 text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-slate-500 focus:border-transparent font-mono text-sm"
+            value={source}
+            onChange={(e) => {
+              setSource(e.target.value);
+              setFileName(undefined);
+              setResult(null);
+            }}
+            placeholder="Paste a tailwind.config.js, CSS file or tokens.json"
+            aria-label="Token source"
+          />
+
+          <button
+            onClick={handleParse}
+            disabled={!source.trim()}
+            className="px-4 py-2 bg-slate-600 text-white rounded-lg hover:bg-slate-700 disabled:opacity-50 transition-colors"
+          >
+            Find colors
+          </button>
+
+          {result && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600 dark:text-slate-300">
+                <span>
+                  {result.tokens.length} color{result.tokens.length === 1 ? '' : 's'} found
+                </span>
+                {result.tokens.length > 0 && (
+                  <>
+                    <button className="underline" onClick={() => setAllPlacements('row')}>All rows</button>
+                    <button className="underline" onClick={() => setAllPlacements('column')}>All columns</button>
+                    <button className="underline" onClick={() => setAllPlacements('skip')}>None</button>
+                  </>
+                )}
+              </div>
+
+              <ul className="divide-y divide-slate-200 dark:divide-slate-700 max-h-64 overflow-y-auto">
+                {result.tokens.map((token, index) => (
+                  <li key={token.name} className="flex items-center gap-3 py-2">
+                    <div
+                      aria-hidden="true"
+                      className="w-6 h-6 rounded border border-slate-200 shadow-sm shrink-0"
+                      style={{ backgroundColor: token.color }}
+                    />
+                    <span className="flex-1 text-sm font-medium text-slate-900 dark:text-slate-100 truncate">
+                      {token.name}
+                    </span>
+                    <span className="text-xs font-mono text-slate-500 dark:text-slate-400">
+                      {token.color}
+                    </span>
+                    <select
+                      aria-label={`Placement of ${token.name}`}
+                      className="px-2 py-1 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded"
+                      value={placements[index]}
+                      onChange={(e) => setPlacements(placements.map((placement, i) =>
+                        i === index ? e.target.value as Placement : placement
+                      ))}
+                    >
+                      <option value="skip">Skip</option>
+                      <option value="row">Row</option>
+                      <option value="column">Column</option>
+                    </select>
+                  </li>
+                ))}
+              </ul>
+
+              {result.warnings.length > 0 && (
+                <details className="text-xs text-slate-500 dark:text-slate-400">
+                  <summary>{result.warnings.length} entries skipped</summary>
+                  <ul className="mt-1 space-y-0.5">
+                    {result.warnings.map((warning, index) => (
+                      <li key={index}>{warning}</li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-4 border-t border-slate-200 dark:border-slate-700">
+          <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+            <input type="checkbox" checked={replace} onChange={(e) => setReplace(e.target.checked)} />
+            Replace existing colors
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-slate-700 dark:text-slate-200 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={selectedCount === 0}
+              className="px-4 py-2 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+            >
+              Import {selectedCount > 0 ? selectedCount : ''}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,225 @@
+import React from 'react';
+import { ContrastAlgorithm, ContrastLevel, compositeOver } from './contrast';
+import { CvdSettings, simulateCvd } from './cvd';
+import { cleanLabel } from './export';
+import { getRequiredLevel } from './core';
+import { evaluatePair } from './pairs';
+import { CustomLevels, TARGET_IDS, TargetId, getTargetProfile, isTargetId } from './targets';
+import { ColorEntry, ColorPair } from './types';
+import { getSwatchBackground } from './colorSpaces';
+import { isGradient, mapColorValue } from './gradient';
+
+interface PairListProps {
+  pairs: ColorPair[];
+  foregroundColors: ColorEntry[];
+  backgroundColors: ColorEntry[];
+  algorithm: ContrastAlgorithm;
+  surface: string;
+  cvd: CvdSettings;
+  defaultTarget: TargetId;
+  custom: CustomLevels;
+  onChange: (pairs: ColorPair[], coalesceKey?: string) => void;
+  onEditColor: (type: 'foreground' | 'background', index: number) => void;
+}
+
+const SELECT_CLASS = 'px-2 py-1 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded';
+
+const entryName = (entry: ColorEntry): string => cleanLabel(entry) || entry.color;
+
+const EntrySelect: React.FC<{
+  label: string;
+  type: 'foreground' | 'background';
+  entries: ColorEntry[];
+  value: number;
+  onChange: (index: number) => void;
+  onEdit: () => void;
+}> = ({ label, type, entries, value, onChange, onEdit }) => (
+  <div className="flex items-center gap-2">
+    <button
+      type="button"
+      className="w-6 h-6 shrink-0 rounded border border-gray-200 shadow-sm hover:ring-2 hover:ring-primary-500 disabled:opacity-40"
+      style={{ background: entries[value] ? getSwatchBackground(entries[value].color) : undefined }}
+      onClick={onEdit}
+      disabled={!entries[value]}
+      aria-label={`Edit ${label.toLowerCase()} color`}
+      aria-haspopup="dialog"
+      data-color-index={`${type}-${value}`}
+    />
+    <select
+      className={`${SELECT_CLASS} flex-1 min-w-0`}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      aria-label={label}
+    >
+      {!entries[value] && <option value={value}>Missing color</option>}
+      {entries.map((entry, index) => (
+        <option key={entry.id ?? index} value={index}>
+          {entryName(entry)}
+        </option>
+      ))}
+    </select>
+  </div>
+);
+
+/**
+ * Explicit foreground/background pairings, each checked against its own
+ * required level instead of the whole cross product.
+ */
+const PairList: React.FC<PairListProps> = ({
+  pairs,
+  foregroundColors,
+  backgroundColors,
+  algorithm,
+  surface,
+  cvd,
+  defaultTarget,
+  custom,
+  onChange,
+  onEditColor,
+}) => {
+  const simulate = (color: string) => mapColorValue(color, value => simulateCvd(value, cvd.type, cvd.severity));
+
+  const updatePair = (index: number, update: Partial<ColorPair>, coalesceKey?: string) => {
+    onChange(pairs.map((pair, i) => (i === index ? { ...pair, ...update } : pair)), coalesceKey);
+  };
+
+  const addPair = () => {
+    onChange([...pairs, { name: `Pair ${pairs.length + 1}`, fg: 0, bg: 0, target: defaultTarget }]);
+  };
+
+  // Contrast is computed on simulated colors only when the simulation asks for it
+  const computeColor = (color: string) => (cvd.recompute ? simulate(color) : color);
+
+  const cards = pairs.map(pair => {
+    const fg: ColorEntry | undefined = foregroundColors[pair.fg];
+    const bg: ColorEntry | undefined = backgroundColors[pair.bg];
+    const levels: ContrastLevel[] = getTargetProfile(pair.target, custom).levels[algorithm.id];
+    const result = fg && bg
+      ? evaluatePair(pair, computeColor(fg.color), computeColor(bg.color), algorithm, computeColor(surface), levels)
+      : null;
+    return { pair, fg, bg, levels, result };
+  });
+  const passing = cards.filter(card => card.result?.passes).length;
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-slate-600 dark:text-slate-300">
+          {pairs.length === 0
+            ? 'No pairs yet. Add the combinations your design actually uses.'
+            : `${passing} of ${pairs.length} pairs pass`}
+        </p>
+        <button
+          onClick={addPair}
+          disabled={foregroundColors.length === 0 || backgroundColors.length === 0}
+          className="px-4 py-2 text-sm bg-slate-600 text-white rounded-lg hover:bg-slate-700 disabled:opacity-50 transition-colors"
+        >
+          Add pair
+        </button>
+      </div>
+
+      <ul className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
+        {cards.map(({ pair, fg, bg, levels, result }, index) => {
+          const required = getRequiredLevel(levels, pair.level);
+
+          return (
+            <li
+              key={index}
+              className="rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden"
+            >
+              <div
+                className="p-4 min-h-[96px] flex flex-col justify-between"
+                style={fg && bg && result ? {
+                  ...(isGradient(bg.color)
+                    ? { backgroundColor: simulate(surface), backgroundImage: simulate(bg.color) }
+                    : { backgroundColor: simulate(compositeOver(bg.color, surface)) }),
+                  color: simulate(fg.color),
+                } : undefined}
+              >
+                <span className="text-lg font-medium truncate">{pair.name || 'Untitled pair'}</span>
+                {result ? (
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="text-2xl font-bold">{algorithm.format(result.value)}</span>
+                    <span className="text-xs px-1.5 py-0.5 rounded border border-current">
+                      {result.passes ? 'Pass' : 'Fail'}
+                      {result.level ? ` · ${result.level.label}` : ''}
+                    </span>
+                  </div>
+                ) : (
+                  <span className="text-sm text-red-600 dark:text-red-400">
+                    {fg && bg ? 'Invalid color' : 'Missing color'}
+                  </span>
+                )}
+              </div>
+
+              <div className="p-3 space-y-2 bg-slate-50 dark:bg-slate-800 border-t border-slate-200 dark:border-slate-700">
+                <input
+                  className={`${SELECT_CLASS} w-full`}
+                  value={pair.name}
+                  onChange={(e) => updatePair(index, { name: e.target.value }, `pair-name-${index}`)}
+                  aria-label="Pair name"
+                />
+                <EntrySelect
+                  label="Foreground"
+                  type="foreground"
+                  entries={foregroundColors}
+                  value={pair.fg}
+                  onChange={(fgIndex) => updatePair(index, { fg: fgIndex })}
+                  onEdit={() => onEditColor('foreground', pair.fg)}
+                />
+                <EntrySelect
+                  label="Background"
+                  type="background"
+                  entries={backgroundColors}
+                  value={pair.bg}
+                  onChange={(bgIndex) => updatePair(index, { bg: bgIndex })}
+                  onEdit={() => onEditColor('background', pair.bg)}
+                />
+                <div className="flex items-center gap-2">
+                  <select
+                    className={`${SELECT_CLASS} flex-1 min-w-0`}
+                    value={pair.target}
+                    onChange={(e) => {
+                      if (isTargetId(e.target.value)) {
+                        updatePair(index, { target: e.target.value, level: undefined });
+                      }
+                    }}
+                    aria-label="Target"
+                  >
+                    {TARGET_IDS.map(id => (
+                      <option key={id} value={id}>
+                        {getTargetProfile(id, custom).name}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    className={SELECT_CLASS}
+                    value={required?.label ?? ''}
+                    onChange={(e) => updatePair(index, { level: e.target.value })}
+                    aria-label="Required level"
+                    disabled={levels.length === 0}
+                  >
+                    {!required && pair.level !== undefined && <option value="">Unknown level</option>}
+                    {levels.map(level => (
+                      <option key={level.label} value={level.label}>
+                        {level.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    className="text-sm text-red-600 dark:text-red-500 hover:underline"
+                    onClick={() => onChange(pairs.filter((_, i) => i !== index))}
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default PairList;
@@ -0,0 +1,267 @@
+import React, { useRef, useState } from 'react';
+import { ContrastAlgorithm } from './contrast';
+import { isValidColor, toChroma } from './cssColor';
+import {
+  ConstraintReference,
+  DEFAULT_SCALE_STEPS,
+  SCALE_SPACES,
+  ScaleConstraint,
+  ScaleSpace,
+  generateScale,
+  parseSteps,
+} from './palette';
+import { ColorEntry } from './types';
+import { useDialogFocus } from './useDialogFocus';
+
+export type ScalePlacement = 'row' | 'column' | 'both';
+
+interface ScaleDialogProps {
+  algorithm: ContrastAlgorithm;
+  onInsert: (entries: ColorEntry[], placement: ScalePlacement, replace: boolean) => void;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = 'px-2 py-1 text-sm text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded';
+
+const ScaleDialog: React.FC<ScaleDialogProps> = ({ algorithm, onInsert, onClose }) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, onClose);
+
+  const [seed, setSeed] = useState('#3B82F6');
+  const [name, setName] = useState('blue');
+  const [stepsText, setStepsText] = useState(DEFAULT_SCALE_STEPS.join(', '));
+  const [space, setSpace] = useState<ScaleSpace>('oklch');
+  const [lightest, setLightest] = useState(0.97);
+  const [darkest, setDarkest] = useState(0.28);
+  const [constraints, setConstraints] = useState<ScaleConstraint[]>([]);
+  const [placement, setPlacement] = useState<ScalePlacement>('row');
+  const [replace, setReplace] = useState(false);
+
+  const steps = parseSteps(stepsText);
+  const isSeedValid = isValidColor(seed);
+  const scale = generateScale({ seed, steps, space, lightest, darkest, constraints, algorithm });
+  const defaultMinimum = algorithm.id === 'apca' ? 60 : 4.5;
+
+  const updateConstraint = (index: number, update: Partial<ScaleConstraint>) => {
+    setConstraints(constraints.map((constraint, i) => (i === index ? { ...constraint, ...update } : constraint)));
+  };
+
+  const handleInsert = () => {
+    const prefix = name.trim() || 'scale';
+    onInsert(
+      scale.map(({ step, color }) => ({ color: color.toUpperCase(), label: ` ${prefix}-${step}` })),
+      placement,
+      replace
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-40 flex items-center justify-center" onClick={onClose}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="scale-dialog-title"
+        className="bg-white dark:bg-slate-800 rounded-lg shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col border border-slate-200 dark:border-slate-700"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <h2 id="scale-dialog-title" className="text-lg font-medium text-slate-900 dark:text-white">
+            Generate a palette scale
+          </h2>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm text-slate-600 dark:text-slate-300">
+            <label className="flex items-center gap-2">
+              <span className="w-20 shrink-0">Seed</span>
+              <input
+                type="color"
+                value={isSeedValid ? toChroma(seed).hex('rgb') : '#000000'}
+                onChange={(e) => setSeed(e.target.value.toUpperCase())}
+                aria-label="Seed color swatch"
+                className="w-8 h-8 shrink-0"
+              />
+              <input
+                className={`${INPUT_CLASS} flex-1 min-w-0 font-mono ${isSeedValid ? '' : 'border-red-500'}`}
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                aria-label="Seed color"
+                spellCheck={false}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="w-20 shrink-0">Name</span>
+              <input
+                className={`${INPUT_CLASS} flex-1 min-w-0`}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="w-20 shrink-0">Steps</span>
+              <input
+                className={`${INPUT_CLASS} flex-1 min-w-0`}
+                value={stepsText}
+                onChange={(e) => setStepsText(e.target.value)}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="w-20 shrink-0">Interpolate</span>
+              <select
+                className={`${INPUT_CLASS} flex-1`}
+                value={space}
+                onChange={(e) => setSpace(e.target.value as ScaleSpace)}
+              >
+                {SCALE_SPACES.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="w-20 shrink-0">Lightest</span>
+              <input
+                type="range"
+                min={50}
+                max={100}
+                value={Math.round(lightest * 100)}
+                onChange={(e) => setLightest(Number(e.target.value) / 100)}
+                className="flex-1"
+              />
+              <span className="w-8 text-right">{Math.round(lightest * 100)}</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="w-20 shrink-0">Darkest</span>
+              <input
+                type="range"
+                min={0}
+                max={50}
+                value={Math.round(darkest * 100)}
+                onChange={(e) => setDarkest(Number(e.target.value) / 100)}
+                className="flex-1"
+              />
+              <span className="w-8 text-right">{Math.round(darkest * 100)}</span>
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-slate-700 dark:text-slate-200">
+              Contrast constraints
+            </h3>
+            {constraints.map((constraint, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                <span>Step</span>
+                <select
+                  className={INPUT_CLASS}
+                  value={constraint.step}
+                  onChange={(e) => updateConstraint(index, { step: Number(e.target.value) })}
+                  aria-label="Constrained step"
+                >
+                  {steps.map(step => (
+                    <option key={step} value={step}>{step}</option>
+                  ))}
+                </select>
+                <span>on</span>
+                <select
+                  className={INPUT_CLASS}
+                  value={constraint.against}
+                  onChange={(e) => updateConstraint(index, { against: e.target.value as ConstraintReference })}
+                  aria-label="Reference color"
+                >
+                  <option value="white">white</option>
+                  <option value="black">black</option>
+                </select>
+                <span>{algorithm.id === 'apca' ? '|Lc| ≥' : 'ratio ≥'}</span>
+                <input
+                  type="number"
+                  step="0.1"
+                  min={0}
+                  className={`${INPUT_CLASS} w-20`}
+                  value={constraint.minimum}
+                  onChange={(e) => updateConstraint(index, { minimum: Number(e.target.value) })}
+                  aria-label="Minimum contrast"
+                />
+                <button
+                  className="text-red-600 dark:text-red-500 hover:underline"
+                  onClick={() => setConstraints(constraints.filter((_, i) => i !== index))}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              className="text-sm text-slate-600 dark:text-slate-300 underline hover:text-slate-900 dark:hover:text-slate-200 disabled:opacity-50"
+              disabled={steps.length === 0}
+              onClick={() => setConstraints([
+                ...constraints,
+                { step: steps[Math.floor(steps.length / 2)], against: 'white', minimum: defaultMinimum },
+              ])}
+            >
+              Add constraint
+            </button>
+          </div>
+
+          {scale.length > 0 ? (
+            <ul className="grid grid-cols-5 sm:grid-cols-10 gap-1" aria-label="Preview">
+              {scale.map(({ step, color, adjusted, unmet }) => (
+                <li key={step} className="text-center text-[10px] text-slate-600 dark:text-slate-300">
+                  <div
+                    className={`h-10 rounded ${unmet ? 'ring-2 ring-red-500' : adjusted ? 'ring-2 ring-primary-500' : ''}`}
+                    style={{ backgroundColor: color }}
+                    title={`${color.toUpperCase()} · ${algorithm.format(algorithm.compute(color, '#ffffff'))} on white, ${algorithm.format(algorithm.compute(color, '#000000'))} on black`}
+                  />
+                  <span>{step}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-red-600 dark:text-red-400">
+              Enter a valid seed color and at least one step.
+            </p>
+          )}
+          {scale.some(step => step.unmet) && (
+            <p className="text-xs text-red-600 dark:text-red-400">
+              Steps outlined in red cannot reach their constraint at any lightness.
+            </p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-t border-slate-200 dark:border-slate-700">
+          <div className="flex items-center gap-3 text-sm text-slate-600 dark:text-slate-300">
+            <select
+              className={INPUT_CLASS}
+              value={placement}
+              onChange={(e) => setPlacement(e.target.value as ScalePlacement)}
+              aria-label="Insert as"
+            >
+              <option value="row">As rows</option>
+              <option value="column">As columns</option>
+              <option value="both">As rows and columns</option>
+            </select>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={replace} onChange={(e) => setReplace(e.target.checked)} />
+              Replace existing colors
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-slate-700 dark:text-slate-200 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleInsert}
+              disabled={scale.length === 0}
+              className="px-4 py-2 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+            >
+              Insert {scale.length > 0 ? scale.length : ''}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScaleDialog;
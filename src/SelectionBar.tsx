@@ -0,0 +1,87 @@
+import React from 'react';
+import { BulkAdjustment } from './entries';
+
+interface SelectionBarProps {
+  // Selected foreground (column) and background (row) entries
+  columns: number;
+  rows: number;
+  // Rows and columns share one list, so entries cannot move between them
+  linked?: boolean;
+  onAdjust: (adjustment: BulkAdjustment) => void;
+  onMove: (to: 'fg' | 'bg') => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+const LIGHTNESS_STEP = 0.05;
+const HUE_STEP = 15;
+
+const BUTTON_CLASS = 'px-2 py-1 text-sm text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-600 rounded hover:bg-slate-100 dark:hover:bg-slate-700';
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Bulk edits for the rows and columns checked in the grid headers. Color
+ * adjustments work in OKLCH and apply to the active theme.
+ */
+const SelectionBar: React.FC<SelectionBarProps> = ({ columns, rows, linked, onAdjust, onMove, onDelete, onClear }) => {
+  const parts = linked
+    ? [plural(columns, 'color')]
+    : [columns > 0 && plural(columns, 'column'), rows > 0 && plural(rows, 'row')].filter(Boolean);
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-slate-200 dark:border-slate-700 bg-primary-50 dark:bg-slate-900"
+      role="toolbar"
+      aria-label="Selected colors"
+    >
+      <span className="text-sm font-medium text-slate-700 dark:text-slate-200 mr-2">
+        {parts.join(' and ')} selected
+      </span>
+      <button className={BUTTON_CLASS} onClick={() => onAdjust({ kind: 'lightness', amount: LIGHTNESS_STEP })}>
+        Lighten
+      </button>
+      <button className={BUTTON_CLASS} onClick={() => onAdjust({ kind: 'lightness', amount: -LIGHTNESS_STEP })}>
+        Darken
+      </button>
+      <button
+        className={BUTTON_CLASS}
+        onClick={() => onAdjust({ kind: 'hue', amount: -HUE_STEP })}
+        aria-label={`Shift hue by -${HUE_STEP} degrees`}
+      >
+        Hue −{HUE_STEP}°
+      </button>
+      <button
+        className={BUTTON_CLASS}
+        onClick={() => onAdjust({ kind: 'hue', amount: HUE_STEP })}
+        aria-label={`Shift hue by ${HUE_STEP} degrees`}
+      >
+        Hue +{HUE_STEP}°
+      </button>
+      {!linked && columns > 0 && (
+        <button className={BUTTON_CLASS} onClick={() => onMove('bg')}>
+          Move to rows
+        </button>
+      )}
+      {!linked && rows > 0 && (
+        <button className={BUTTON_CLASS} onClick={() => onMove('fg')}>
+          Move to columns
+        </button>
+      )}
+      <button
+        className="px-2 py-1 text-sm text-red-600 dark:text-red-400 border border-slate-200 dark:border-slate-600 rounded hover:bg-slate-100 dark:hover:bg-slate-700"
+        onClick={onDelete}
+      >
+        Delete
+      </button>
+      <button
+        className="ml-auto text-sm text-slate-600 dark:text-slate-300 underline hover:text-slate-900 dark:hover:text-slate-200"
+        onClick={onClear}
+      >
+        Clear selection
+      </button>
+    </div>
+  );
+};
+
+export default SelectionBar;
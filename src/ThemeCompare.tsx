@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { ContrastMatrix, cleanLabel } from './export';
+import { compareThemes } from './themes';
+
+interface ThemeCompareProps {
+  themes: string[];
+  activeTheme: string;
+  // One matrix per theme, built from the same visible rows and columns
+  matrices: ContrastMatrix[];
+  onSelectTheme: (theme: string) => void;
+}
+
+const entryName = (entry: { color: string; label?: string }): string => cleanLabel(entry) || entry.color;
+
+/**
+ * Every visible pair with its result in each theme, flagging pairs that pass
+ * in one theme but fail in another.
+ */
+const ThemeCompare: React.FC<ThemeCompareProps> = ({ themes, activeTheme, matrices, onSelectTheme }) => {
+  const [onlyDifferences, setOnlyDifferences] = useState(true);
+
+  const comparisons = compareThemes(matrices);
+  const differing = comparisons.filter(comparison => comparison.differs);
+  const shown = onlyDifferences ? differing : comparisons;
+  const algorithm = matrices[0]?.algorithm;
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-slate-600 dark:text-slate-300">
+          {differing.length === 0
+            ? `All ${comparisons.length} pairs have the same result in every theme`
+            : `${differing.length} of ${comparisons.length} pairs pass in one theme but fail in another`}
+        </p>
+        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+          <input
+            type="checkbox"
+            checked={onlyDifferences}
+            onChange={(e) => setOnlyDifferences(e.target.checked)}
+          />
+          Only pairs that differ
+        </label>
+      </div>
+
+      {shown.length > 0 && algorithm && (
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="text-left text-slate-700 dark:text-slate-200">
+                <th scope="col" className="p-2 border-b border-slate-200 dark:border-slate-700">Foreground</th>
+                <th scope="col" className="p-2 border-b border-slate-200 dark:border-slate-700">Background</th>
+                {themes.map(theme => (
+                  <th key={theme} scope="col" className="p-2 border-b border-slate-200 dark:border-slate-700">
+                    <button
+                      className={`hover:underline ${theme === activeTheme ? 'font-bold' : 'font-medium'}`}
+                      onClick={() => onSelectTheme(theme)}
+                      title={`Show the matrix in ${theme}`}
+                    >
+                      {theme}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map(({ row, column, cells, differs }) => (
+                <tr
+                  key={`${row}-${column}`}
+                  className={`text-slate-700 dark:text-slate-200 ${differs ? 'bg-amber-50 dark:bg-amber-900/20' : ''}`}
+                >
+                  <td className="p-2 border-b border-slate-200 dark:border-slate-700">
+                    {entryName(matrices[0].columns[column])}
+                  </td>
+                  <td className="p-2 border-b border-slate-200 dark:border-slate-700">
+                    {entryName(matrices[0].rows[row])}
+                  </td>
+                  {cells.map((cell, index) => (
+                    <td key={themes[index]} className="p-2 border-b border-slate-200 dark:border-slate-700">
+                      {cell.value === null ? (
+                        <span className="text-red-600 dark:text-red-400">Invalid color</span>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <span
+                            className="px-1.5 rounded border border-slate-200 dark:border-slate-600 font-medium"
+                            style={{
+                              color: cell.effectiveForeground ?? undefined,
+                              backgroundColor: cell.effectiveBackground ?? undefined,
+                            }}
+                            aria-hidden="true"
+                          >
+                            Aa
+                          </span>
+                          <span className="font-mono">{algorithm.format(cell.value)}</span>
+                          <span className={cell.passes ? '' : 'text-red-600 dark:text-red-400'}>
+                            {cell.level ?? 'Failed'}
+                          </span>
+                        </div>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThemeCompare;
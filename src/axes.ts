@@ -0,0 +1,48 @@
+import { followEntries } from './pairs';
+import { ColorEntry } from './types';
+import { GridState } from './useGridHistory';
+
+/*
+ * A linked grid checks one palette against itself: rows and columns show the
+ * same entries, with the same ids, and every edit to either list is applied
+ * to both. Both lists are still stored, so unlinking leaves two independent
+ * copies.
+ */
+
+const isSameLine = (a: ColorEntry, b: ColorEntry): boolean => a.color === b.color && a.label === b.label;
+
+// Whether every row already appears among the columns, so linking loses no color
+export const coversRows = (grid: GridState): boolean =>
+  grid.bg.every(row => grid.fg.some(column => isSameLine(row, column)));
+
+/**
+ * Makes the columns the shared list. Pairs on a row move to the column with
+ * the same color and label, and otherwise show as missing.
+ */
+export const linkGrid = (grid: GridState): GridState => {
+  const replacements = new Map<string, string>();
+  grid.bg.forEach(row => {
+    const match = grid.fg.find(column => isSameLine(row, column));
+    if (row.id && match?.id) replacements.set(row.id, match.id);
+  });
+  return {
+    ...grid,
+    bg: grid.fg,
+    pairs: grid.pairs && followEntries(grid.pairs, 'bg', grid.bg, grid.fg, replacements),
+    linked: true,
+  };
+};
+
+export const unlinkGrid = (grid: GridState): GridState => ({ ...grid, linked: undefined });
+
+/**
+ * Swaps the foreground and background lists, keeping labels, order and
+ * per-entry settings. Pairs stay on the same two entries with their roles
+ * swapped, since a pair's foreground must come from the column list.
+ */
+export const transposeGrid = (grid: GridState): GridState => ({
+  ...grid,
+  fg: grid.bg,
+  bg: grid.fg,
+  pairs: grid.pairs?.map(pair => ({ ...pair, fg: pair.bg, bg: pair.fg })),
+});
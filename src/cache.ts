@@ -0,0 +1,16 @@
+/**
+ * Memo for pure functions of a string key, such as parsing a color. A grid asks
+ * for the same colors in every cell, so results are kept until the cache holds
+ * `limit` entries and are then dropped all at once. Computations that throw are
+ * not cached.
+ */
+export const createCache = <T>(limit: number) => {
+  const values = new Map<string, T>();
+  return (key: string, compute: () => T): T => {
+    if (values.has(key)) return values.get(key) as T;
+    const value = compute();
+    if (values.size >= limit) values.clear();
+    values.set(key, value);
+    return value;
+  };
+};
@@ -0,0 +1,62 @@
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+// Runs the CLI from source, as a separate process so its exit code is real
+const VITE_NODE = join(__dirname, '..', 'node_modules', 'vite-node', 'vite-node.mjs');
+const CLI = join(__dirname, 'cli.ts');
+
+let dir: string;
+
+const write = (name: string, content: string): string => {
+  const path = join(dir, name);
+  writeFileSync(path, content);
+  return path;
+};
+
+const run = (...args: string[]) => {
+  const { status, stdout, stderr } = spawnSync(process.execPath, [VITE_NODE, CLI, '--', ...args], {
+    encoding: 'utf8',
+    timeout: 60000,
+  });
+  return { status, stdout, stderr };
+};
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'contrast-check-'));
+  write('palette.csv', 'name,color\nInk,#111111\nMuted,#999999\nPaper,#ffffff\n');
+});
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+// Each run starts a process, which takes a second or two
+describe('contrast-check', { timeout: 60000 }, () => {
+  it('exits with 0 when every pair passes', () => {
+    const pairs = write('pass.json', '[{ "name": "Body", "foreground": "Ink", "background": "Paper" }]');
+    const { status, stdout } = run('--palette', join(dir, 'palette.csv'), '--pairs', pairs);
+    expect(status).toBe(0);
+    expect(stdout).toContain('1 of 1 pairs pass');
+  });
+
+  it('exits with 1 when a pair fails', () => {
+    const pairs = write('fail.json', '[{ "foreground": "Muted", "background": "Paper" }]');
+    const { status, stdout } = run('--palette', join(dir, 'palette.csv'), '--pairs', pairs, '--json');
+    expect(status).toBe(1);
+    expect(JSON.parse(stdout)).toMatchObject({ algorithm: 'wcag2', passed: 0, failed: 1 });
+  });
+
+  it('exits with 2 on bad input', () => {
+    const pairs = write('pass.json', '[{ "foreground": "Ink", "background": "Paper" }]');
+    expect(run('--palette', join(dir, 'palette.csv')).status).toBe(2);
+    expect(run('--palette', join(dir, 'missing.csv'), '--pairs', pairs).status).toBe(2);
+    expect(run('--palette', join(dir, 'palette.csv'), '--pairs', pairs, '--algorithm', 'wcag3').status).toBe(2);
+    expect(run('--palette', join(dir, 'palette.csv'), '--pairs', write('bad.json', '{')).status).toBe(2);
+
+    const level = write('level.json', '[{ "foreground": "Ink", "background": "Paper", "level": "AAAA" }]');
+    const { status, stderr } = run('--palette', join(dir, 'palette.csv'), '--pairs', level);
+    expect(status).toBe(2);
+    expect(stderr).toContain('unknown level "AAAA"');
+  });
+});
@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+/**
+ * contrast-check --palette colors.json --pairs pairs.json [--algorithm apca]
+ *
+ * Checks required foreground/background pairs from a palette and exits with 1
+ * when any of them falls below its target, so it can gate CI.
+ */
+import { readFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import { CONTRAST_ALGORITHMS, ContrastAlgorithmId, isContrastAlgorithmId } from './contrast';
+import { PairCheckResult, checkPairs, parsePalette, parseRequiredPairs } from './core';
+import { isValidColor } from './cssColor';
+
+const EXIT_PASS = 0;
+const EXIT_FAIL = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: contrast-check --palette <file> --pairs <file> [options]
+
+Options:
+  --palette <file>     Colors as CSV (name,color), a JSON map or list, design
+                       tokens, CSS custom properties or a Tailwind config
+  --pairs <file>       JSON array of { name, foreground, background, target, level }
+                       where foreground/background are palette names or colors
+  --algorithm <id>     wcag2 (default) or apca
+  --surface <color>    Page color translucent colors are composited over (#ffffff)
+  --json               Print results as JSON instead of a report
+  -h, --help           Show this message
+
+Exits with 0 when every pair passes, 1 when any pair fails and 2 on bad input.`;
+
+class UsageError extends Error {}
+
+const readInput = (path: string): string => {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch (e) {
+    throw new UsageError(`Cannot read ${path}: ${(e as Error).message}`);
+  }
+};
+
+const formatResult = (result: PairCheckResult, algorithmId: ContrastAlgorithmId): string => {
+  const { pair } = result;
+  const mark = result.passes ? '✓' : '✗';
+  if (result.error) return `${mark} ${pair.name}: ${result.error}`;
+
+  const colors = `${result.foreground} on ${result.background}`;
+  const value = CONTRAST_ALGORITHMS[algorithmId].format(result.value ?? 0);
+  const needed = result.required ? `needs ${result.required.label}` : 'no requirement';
+  return `${mark} ${pair.name}  ${colors}  ${value} (${result.level?.label ?? 'Failed'}, ${needed})`;
+};
+
+const run = (argv: string[]): number => {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      palette: { type: 'string' },
+      pairs: { type: 'string' },
+      algorithm: { type: 'string', default: 'wcag2' },
+      surface: { type: 'string', default: '#ffffff' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_PASS;
+  }
+  if (!values.palette || !values.pairs) throw new UsageError('Both --palette and --pairs are required');
+  if (!isContrastAlgorithmId(values.algorithm)) {
+    throw new UsageError(`Unknown algorithm "${values.algorithm}", expected wcag2 or apca`);
+  }
+  if (!isValidColor(values.surface)) throw new UsageError(`Invalid surface color "${values.surface}"`);
+  const algorithm = values.algorithm;
+
+  const palette = parsePalette(readInput(values.palette), basename(values.palette));
+  palette.warnings.forEach(warning => console.error(`warning: ${warning}`));
+
+  let results: PairCheckResult[];
+  try {
+    const pairs = parseRequiredPairs(readInput(values.pairs));
+    results = checkPairs(palette.colors, pairs, { algorithm, surface: values.surface });
+  } catch (e) {
+    if (e instanceof UsageError) throw e;
+    throw new UsageError(`${values.pairs}: ${(e as Error).message}`);
+  }
+  const failed = results.filter(result => !result.passes).length;
+
+  if (values.json) {
+    console.log(JSON.stringify({ algorithm, passed: results.length - failed, failed, results }, null, 2));
+  } else {
+    results.forEach(result => console.log(formatResult(result, algorithm)));
+    console.log(`\n${results.length - failed} of ${results.length} pairs pass (${CONTRAST_ALGORITHMS[algorithm].name})`);
+  }
+  return failed > 0 ? EXIT_FAIL : EXIT_PASS;
+};
+
+try {
+  process.exitCode = run(process.argv.slice(2));
+} catch (e) {
+  console.error(`contrast-check: ${(e as Error).message}`);
+  if (e instanceof UsageError || (e as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+    console.error('Run with --help for usage.');
+  }
+  process.exitCode = EXIT_USAGE;
+}
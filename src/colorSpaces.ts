@@ -0,0 +1,108 @@
+import chroma from 'chroma-js';
+import { isGradient } from './gradient';
+
+export type ColorMode = 'hsl' | 'hsv' | 'rgb' | 'oklch' | 'lch';
+
+export interface ChannelSpec {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  // Digits shown next to the slider; the stored value is never rounded
+  precision: number;
+}
+
+export const COLOR_MODES: { value: ColorMode; label: string }[] = [
+  { value: 'oklch', label: 'OKLCH' },
+  { value: 'lch', label: 'LCH' },
+  { value: 'hsl', label: 'HSL' },
+  { value: 'hsv', label: 'HSV' },
+  { value: 'rgb', label: 'RGB' },
+];
+
+const HUE: ChannelSpec = { label: 'Hue', min: 0, max: 360, step: 0.1, precision: 1 };
+
+export const CHANNELS: Record<ColorMode, [ChannelSpec, ChannelSpec, ChannelSpec]> = {
+  hsl: [
+    HUE,
+    { label: 'Saturation', min: 0, max: 100, step: 0.1, precision: 1 },
+    { label: 'Lightness', min: 0, max: 100, step: 0.1, precision: 1 },
+  ],
+  hsv: [
+    HUE,
+    { label: 'Saturation', min: 0, max: 100, step: 0.1, precision: 1 },
+    { label: 'Value', min: 0, max: 100, step: 0.1, precision: 1 },
+  ],
+  rgb: [
+    { label: 'Red', min: 0, max: 255, step: 1, precision: 0 },
+    { label: 'Green', min: 0, max: 255, step: 1, precision: 0 },
+    { label: 'Blue', min: 0, max: 255, step: 1, precision: 0 },
+  ],
+  oklch: [
+    { label: 'Lightness', min: 0, max: 100, step: 0.1, precision: 1 },
+    { label: 'Chroma', min: 0, max: 0.4, step: 0.001, precision: 3 },
+    HUE,
+  ],
+  lch: [
+    { label: 'Lightness', min: 0, max: 100, step: 0.1, precision: 1 },
+    { label: 'Chroma', min: 0, max: 150, step: 0.1, precision: 1 },
+    HUE,
+  ],
+};
+
+export type Channels = [number, number, number];
+
+// Achromatic colors have no hue; keep the previous one so sliders don't jump
+const keepHue = (hue: number, previous: number): number => (isNaN(hue) ? previous : hue);
+
+/**
+ * Channel values for a color in the given mode, unrounded. Percent-based
+ * channels are scaled to 0-100 to match the sliders.
+ */
+export const toChannels = (color: chroma.Color, mode: ColorMode, previous?: Channels): Channels => {
+  switch (mode) {
+    case 'hsl': {
+      const [h, s, l] = color.hsl();
+      return [keepHue(h, previous?.[0] ?? 0), (s || 0) * 100, l * 100];
+    }
+    case 'hsv': {
+      const [h, s, v] = color.hsv();
+      return [keepHue(h, previous?.[0] ?? 0), (s || 0) * 100, v * 100];
+    }
+    case 'rgb': {
+      const [r, g, b] = color.rgb(false);
+      return [r, g, b];
+    }
+    case 'oklch': {
+      const [l, c, h] = color.oklch();
+      return [l * 100, c, keepHue(h, previous?.[2] ?? 0)];
+    }
+    case 'lch': {
+      const [l, c, h] = color.lch();
+      return [l, c, keepHue(h, previous?.[2] ?? 0)];
+    }
+  }
+};
+
+export const fromChannels = (channels: Channels, mode: ColorMode): chroma.Color => {
+  const [a, b, c] = channels;
+  switch (mode) {
+    case 'hsl':
+      return chroma.hsl(a, b / 100, c / 100);
+    case 'hsv':
+      return chroma.hsv(a, b / 100, c / 100);
+    case 'rgb':
+      return chroma.rgb(a, b, c);
+    case 'oklch':
+      return chroma.oklch(a / 100, b, c);
+    case 'lch':
+      return chroma.lch(a, b, c);
+  }
+};
+
+// Checkerboard shown behind translucent colors
+const TRANSPARENCY_PATTERN = 'repeating-conic-gradient(#cbd5e1 0% 25%, #ffffff 0% 50%) 0 0 / 8px 8px';
+
+// Gradient backgrounds are shown as they are
+export const getSwatchBackground = (color: string): string =>
+  `${isGradient(color) ? color : `linear-gradient(${color}, ${color})`}, ${TRANSPARENCY_PATTERN}`;
@@ -0,0 +1,217 @@
+import chroma from 'chroma-js';
+import { createCache } from './cache';
+import { toChroma } from './cssColor';
+
+export type ContrastAlgorithmId = 'wcag2' | 'apca';
+
+export interface ContrastLevel {
+  label: string;
+  min: number;
+  description: string;
+  // Level a pair has to meet when it names none, instead of the weakest one
+  isDefault?: boolean;
+}
+
+export interface ContrastAlgorithm {
+  id: ContrastAlgorithmId;
+  name: string;
+  // Raw contrast value for a text/background pair, 0 when either color is invalid
+  compute: (fg: string, bg: string) => number;
+  format: (value: number) => string;
+  // Short typography hint shown under the value, if the algorithm has one
+  describe?: (value: number) => string | undefined;
+}
+
+// Luminances are cached per color, so a grid computes each one once per row or column
+const luminanceCache = createCache<number>(5000);
+const apcaLuminanceCache = createCache<number>(5000);
+const compositeCache = createCache<string>(20000);
+
+const wcagLuminance = (color: string): number => luminanceCache(color, () => chroma(color).luminance());
+
+const wcag2: ContrastAlgorithm = {
+  id: 'wcag2',
+  name: 'WCAG 2',
+  compute: (fg, bg) => {
+    try {
+      const fgY = wcagLuminance(fg);
+      const bgY = wcagLuminance(bg);
+      return (Math.max(fgY, bgY) + 0.05) / (Math.min(fgY, bgY) + 0.05);
+    } catch {
+      return 0;
+    }
+  },
+  format: (value) => value.toFixed(2),
+};
+
+// APCA-W3 0.0.98G-4g constants
+const APCA = {
+  mainTRC: 2.4,
+  sRco: 0.2126729,
+  sGco: 0.7151522,
+  sBco: 0.072175,
+  normBG: 0.56,
+  normTXT: 0.57,
+  revTXT: 0.62,
+  revBG: 0.65,
+  blkThrs: 0.022,
+  blkClmp: 1.414,
+  scaleBoW: 1.14,
+  scaleWoB: 1.14,
+  loBoWoffset: 0.027,
+  loWoBoffset: 0.027,
+  deltaYmin: 0.0005,
+  loClip: 0.1,
+};
+
+const apcaLuminance = (color: string): number => apcaLuminanceCache(color, () => {
+  const [r, g, b] = chroma(color).rgb();
+  const channel = (value: number) => Math.pow(value / 255, APCA.mainTRC);
+  return APCA.sRco * channel(r) + APCA.sGco * channel(g) + APCA.sBco * channel(b);
+});
+
+const clampBlack = (y: number): number =>
+  y > APCA.blkThrs ? y : y + Math.pow(APCA.blkThrs - y, APCA.blkClmp);
+
+export const getApcaContrast = (fg: string, bg: string): number => {
+  const txtY = clampBlack(apcaLuminance(fg));
+  const bgY = clampBlack(apcaLuminance(bg));
+
+  if (Math.abs(bgY - txtY) < APCA.deltaYmin) return 0;
+
+  if (bgY > txtY) {
+    // Dark text on a light background yields a positive Lc
+    const sapc = (Math.pow(bgY, APCA.normBG) - Math.pow(txtY, APCA.normTXT)) * APCA.scaleBoW;
+    return sapc < APCA.loClip ? 0 : (sapc - APCA.loBoWoffset) * 100;
+  }
+
+  // Light text on a dark background yields a negative Lc
+  const sapc = (Math.pow(bgY, APCA.revBG) - Math.pow(txtY, APCA.revTXT)) * APCA.scaleWoB;
+  return sapc > -APCA.loClip ? 0 : (sapc + APCA.loWoBoffset) * 100;
+};
+
+export const APCA_FONT_WEIGHTS = [100, 200, 300, 400, 500, 600, 700, 800, 900] as const;
+
+// Sizes of 999 are not usable for any text, 777 only for non-text elements
+const NON_TEXT_ONLY = 777;
+
+// Minimum font size in px per |Lc| (rows) and font weight (columns)
+const APCA_FONT_LOOKUP: [number, number[]][] = [
+  [0, [999, 999, 999, 999, 999, 999, 999, 999, 999]],
+  [10, [999, 999, 999, 999, 999, 999, 999, 999, 999]],
+  [15, [777, 777, 777, 777, 777, 777, 777, 777, 777]],
+  [20, [777, 777, 777, 777, 777, 777, 777, 777, 777]],
+  [25, [777, 777, 777, 120, 120, 108, 96, 96, 96]],
+  [30, [777, 777, 120, 108, 108, 96, 72, 72, 72]],
+  [35, [777, 120, 108, 96, 72, 60, 48, 48, 48]],
+  [40, [120, 108, 96, 60, 48, 42, 32, 32, 32]],
+  [45, [108, 96, 72, 42, 32, 28, 24, 24, 24]],
+  [50, [96, 72, 60, 32, 28, 24, 21, 21, 21]],
+  [55, [80, 60, 48, 28, 24, 21, 18, 18, 18]],
+  [60, [72, 48, 42, 24, 21, 18, 16, 16, 18]],
+  [65, [68, 46, 32, 21.75, 19, 17, 15, 16, 18]],
+  [70, [64, 44, 28, 19.5, 18, 16, 14.5, 16, 18]],
+  [75, [60, 42, 24, 18, 16, 15, 14, 16, 18]],
+  [80, [56, 38.25, 23, 17.25, 15.81, 14.81, 14, 16, 18]],
+  [85, [52, 34.5, 22, 16.5, 15.625, 14.625, 14, 16, 18]],
+  [90, [48, 32, 21, 16, 15.5, 14.5, 14, 16, 18]],
+  [95, [45, 28, 19.5, 15.5, 15, 14, 13.5, 16, 18]],
+  [100, [42, 26.5, 18.5, 15, 14.5, 13.5, 13, 16, 18]],
+  [105, [39, 25, 18, 14, 14, 13, 12, 16, 18]],
+];
+
+/**
+ * Minimum font size (px) for text at the given Lc and weight, or null when
+ * the contrast is too low for text at that weight.
+ */
+export const getApcaFontSize = (lc: number, weight: number): number | null => {
+  const magnitude = Math.abs(lc);
+  const column = APCA_FONT_WEIGHTS.indexOf(weight as typeof APCA_FONT_WEIGHTS[number]);
+  if (column === -1) return null;
+
+  let row = APCA_FONT_LOOKUP[0];
+  for (const entry of APCA_FONT_LOOKUP) {
+    if (entry[0] <= magnitude) row = entry;
+  }
+
+  const size = row[1][column];
+  return size >= NON_TEXT_ONLY ? null : size;
+};
+
+const describeApca = (lc: number): string | undefined => {
+  const size = getApcaFontSize(lc, 400);
+  if (size !== null) return `≥ ${size}px @ 400`;
+  const boldSize = getApcaFontSize(lc, 700);
+  if (boldSize !== null) return `≥ ${boldSize}px @ 700`;
+  return Math.abs(lc) >= 15 ? 'Non-text only' : 'Not for text';
+};
+
+const apca: ContrastAlgorithm = {
+  id: 'apca',
+  name: 'APCA',
+  compute: (fg, bg) => {
+    try {
+      return getApcaContrast(fg, bg);
+    } catch {
+      return 0;
+    }
+  },
+  format: (value) => `Lc ${value.toFixed(1)}`,
+  describe: describeApca,
+};
+
+export const CONTRAST_ALGORITHMS: Record<ContrastAlgorithmId, ContrastAlgorithm> = {
+  wcag2,
+  apca,
+};
+
+export const isContrastAlgorithmId = (value: unknown): value is ContrastAlgorithmId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(CONTRAST_ALGORITHMS, value);
+
+// Levels are ordered strongest first and compared by magnitude
+export const getContrastLevel = (
+  levels: ContrastLevel[],
+  value: number
+): ContrastLevel | undefined => levels.find(level => Math.abs(value) >= level.min);
+
+/**
+ * Blends a possibly translucent color over an opaque base in sRGB space, the
+ * way browsers composite it, and returns the opaque result as hex.
+ */
+export const compositeOver = (color: string, base: string): string => compositeCache(`${color}\n${base}`, () => {
+  const top = toChroma(color);
+  const alpha = top.alpha();
+  if (alpha >= 1) return top.hex('rgb');
+
+  const [r, g, b] = top.rgb(false);
+  const [baseR, baseG, baseB] = toChroma(base).rgb(false);
+  return chroma(
+    r * alpha + baseR * (1 - alpha),
+    g * alpha + baseG * (1 - alpha),
+    b * alpha + baseB * (1 - alpha)
+  ).hex('rgb');
+});
+
+/**
+ * Colors actually seen in a cell: the background is composited over the page
+ * surface first, then the foreground over that result.
+ */
+export const getEffectiveColors = (
+  foreground: string,
+  background: string,
+  surface: string
+): { foreground: string; background: string } => {
+  const effectiveBackground = compositeOver(background, surface);
+  return {
+    foreground: compositeOver(foreground, effectiveBackground),
+    background: effectiveBackground,
+  };
+};
+
+export const hasAlpha = (color: string): boolean => {
+  try {
+    return toChroma(color).alpha() < 1;
+  } catch {
+    return false;
+  }
+};
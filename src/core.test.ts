@@ -0,0 +1,220 @@
+import { describe, expect, it } from 'vitest';
+import { CONTRAST_ALGORITHMS } from './contrast';
+import {
+  checkPairs,
+  classifyContrast,
+  getLineErrors,
+  measureContrast,
+  measureContrastRange,
+  parseColorInput,
+  parseColorLines,
+  parsePalette,
+  parseRequiredPairs,
+} from './core';
+import { DEFAULT_CUSTOM_LEVELS, getTargetProfile } from './targets';
+
+const { wcag2, apca } = CONTRAST_ALGORITHMS;
+const textLevels = getTargetProfile('text', DEFAULT_CUSTOM_LEVELS).levels;
+
+describe('parseColorInput', () => {
+  it('splits the color from its label and keeps the separator', () => {
+    expect(parseColorInput('#FF0000, Red')).toEqual({ color: '#FF0000', label: ', Red' });
+    expect(parseColorInput('#FF0000 Red')).toEqual({ color: '#FF0000', label: ' Red' });
+    expect(parseColorInput('#FF0000')).toEqual({ color: '#FF0000' });
+  });
+
+  it('keeps color functions whole', () => {
+    expect(parseColorInput('rgb(0 0 0 / 50%) Shadow')).toEqual({ color: 'rgb(0 0 0 / 50%)', label: ' Shadow' });
+    expect(parseColorInput('hsl(0, 100%, 50%), Red')).toEqual({ color: 'hsl(0, 100%, 50%)', label: ', Red' });
+  });
+
+  it('adds "#" to bare six and eight digit hex only', () => {
+    expect(parseColorInput('ff0000').color).toBe('#ff0000');
+    expect(parseColorInput('ff000080').color).toBe('#ff000080');
+    expect(parseColorInput('fff').color).toBe('fff');
+  });
+});
+
+describe('getLineErrors', () => {
+  it('reports empty, unreadable and unquoted lines by 1-based line number', () => {
+    const entries = parseColorLines('#fff\n\nnope\n#000 "Black\n, Label only');
+    expect(getLineErrors(entries).map(error => error.line)).toEqual([2, 3, 4, 5]);
+    expect(getLineErrors(entries)[0].message).toBe('Empty line');
+    expect(getLineErrors(entries)[2].message).toBe('Label has an unclosed quote');
+    expect(getLineErrors(entries)[3].message).toBe('Line must start with a color');
+  });
+
+  it('accepts gradients only when allowed', () => {
+    const entries = parseColorLines('linear-gradient(#fff, #000) Fade');
+    expect(getLineErrors(entries)).toEqual([{ line: 1, message: 'Gradients can only be used as backgrounds' }]);
+    expect(getLineErrors(entries, true)).toEqual([]);
+    expect(getLineErrors(parseColorLines('linear-gradient(#fff, nope)'), true)).toHaveLength(1);
+  });
+});
+
+describe('parsePalette', () => {
+  it('reads name,color CSV and skips the header', () => {
+    const result = parsePalette('name,color\nInk,#111111\nShadow,rgb(0, 0, 0)\nBroken,nope\n', 'colors.csv');
+    expect(result.colors).toEqual([
+      { name: 'Ink', color: '#111111' },
+      { name: 'Shadow', color: 'rgb(0, 0, 0)' },
+    ]);
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  it('reads plain JSON maps and lists', () => {
+    expect(parsePalette('{ "Ink": "#111111", "Paper": "#ffffff" }', 'colors.json').colors).toEqual([
+      { name: 'Ink', color: '#111111' },
+      { name: 'Paper', color: '#ffffff' },
+    ]);
+    expect(parsePalette('[{ "name": "Ink", "color": "#111111" }]').colors).toEqual([{ name: 'Ink', color: '#111111' }]);
+  });
+
+  it('reads design tokens with aliases', () => {
+    const source = JSON.stringify({
+      color: {
+        $type: 'color',
+        ink: { $value: '#111111' },
+        text: { $value: '{color.ink}' },
+      },
+    });
+    expect(parsePalette(source, 'tokens.json').colors).toEqual([
+      { name: 'color.ink', color: '#111111' },
+      { name: 'color.text', color: '#111111' },
+    ]);
+  });
+
+  it('reads CSS custom properties and Tailwind configs', () => {
+    expect(parsePalette(':root { --ink: #111; --text: var(--ink); }', 'theme.css').colors).toEqual([
+      { name: '--ink', color: '#111' },
+      { name: '--text', color: '#111' },
+    ]);
+    const config = 'module.exports = { theme: { extend: { colors: { brand: { DEFAULT: "#0055ff", light: "#88aaff" } } } } }';
+    expect(parsePalette(config, 'tailwind.config.js').colors).toEqual([
+      { name: 'brand', color: '#0055ff' },
+      { name: 'brand-light', color: '#88aaff' },
+    ]);
+  });
+
+  it('reports JSON syntax errors as warnings', () => {
+    const result = parsePalette('{ "Ink": ', 'colors.json');
+    expect(result.colors).toEqual([]);
+    expect(result.warnings[0]).toMatch(/^Could not parse JSON/);
+  });
+});
+
+describe('measureContrastRange', () => {
+  it('measures opaque pairs without an average', () => {
+    const range = measureContrastRange('#000000', '#ffffff', wcag2);
+    expect(range?.value).toBeCloseTo(21);
+    expect(range?.average).toBeUndefined();
+  });
+
+  it('composites translucent colors over the surface first', () => {
+    expect(measureContrast('rgba(0, 0, 0, 0.5)', '#ffffff', wcag2))
+      .toBeCloseTo(measureContrast('#808080', '#ffffff', wcag2) as number, 1);
+    expect(measureContrast('#000000', 'rgba(0, 0, 0, 0.5)', wcag2, '#ffffff'))
+      .toBeCloseTo(measureContrast('#000000', '#808080', wcag2) as number, 1);
+    expect(measureContrast('#000000', 'transparent', wcag2, '#000000')).toBeCloseTo(1);
+  });
+
+  it('reports the worst and average contrast on a gradient', () => {
+    const range = measureContrastRange('#777777', 'linear-gradient(#ffffff, #000000)', wcag2);
+    expect(range?.value).toBeLessThan(1.1);
+    expect(range?.average).toBeGreaterThan(2);
+    expect(measureContrast('#000000', 'linear-gradient(#ffffff, #808080)', wcag2))
+      .toBeCloseTo(measureContrast('#000000', '#808080', wcag2) as number, 1);
+  });
+
+  it('keeps the APCA polarity', () => {
+    expect(measureContrastRange('#000000', '#ffffff', apca)?.value).toBeGreaterThan(0);
+    expect(measureContrastRange('#ffffff', '#000000', apca)?.value).toBeLessThan(0);
+  });
+
+  it('returns null for colors it cannot read', () => {
+    expect(measureContrastRange('nope', '#ffffff', wcag2)).toBeNull();
+    expect(measureContrastRange('#000000', 'linear-gradient(nope)', wcag2)).toBeNull();
+  });
+});
+
+describe('classifyContrast', () => {
+  it('grades against the strongest level reached', () => {
+    const result = classifyContrast(5, textLevels.wcag2);
+    expect(result.level?.label).toBe('AA');
+    expect(result.passes).toBe(true);
+    expect(classifyContrast(3, textLevels.wcag2).level).toBeUndefined();
+  });
+
+  it('checks a named required level', () => {
+    const result = classifyContrast(5, textLevels.wcag2, 'AAA');
+    expect(result.required?.label).toBe('AAA');
+    expect(result.passes).toBe(false);
+  });
+
+  it('compares APCA values by magnitude', () => {
+    expect(classifyContrast(-80, textLevels.apca, 'Lc 75').passes).toBe(true);
+    expect(classifyContrast(-70, textLevels.apca, 'Lc 75').passes).toBe(false);
+  });
+
+  it('fails a level the target does not have', () => {
+    const result = classifyContrast(21, textLevels.wcag2, 'AAAA');
+    expect(result.required).toBeUndefined();
+    expect(result.passes).toBe(false);
+  });
+});
+
+describe('checkPairs', () => {
+  const palette = [
+    { name: 'Ink', color: '#111111' },
+    { name: 'Muted', color: '#999999' },
+    { name: 'Paper', color: '#ffffff' },
+  ];
+
+  it('resolves palette names and literal colors', () => {
+    const pairs = parseRequiredPairs(JSON.stringify([
+      { name: 'Body', foreground: 'Ink', background: 'Paper' },
+      { fg: 'Muted', bg: '#ffffff' },
+      { foreground: 'Ink', background: 'linear-gradient(#ffffff, #eeeeee)' },
+    ]));
+    const results = checkPairs(palette, pairs, { algorithm: 'wcag2' });
+    expect(results.map(result => result.passes)).toEqual([true, false, true]);
+    expect(results[1].pair.name).toBe('Muted on #ffffff');
+    expect(results[1].required?.label).toBe('AA');
+  });
+
+  it('fails pairs with unknown colors', () => {
+    const [result] = checkPairs(palette, parseRequiredPairs('[{ "foreground": "Ink", "background": "Cloud" }]'), {
+      algorithm: 'wcag2',
+    });
+    expect(result.passes).toBe(false);
+    expect(result.value).toBeNull();
+    expect(result.error).toBe('Unknown color "Cloud"');
+  });
+
+  it('requires usable body-text contrast when no level is named', () => {
+    const pairs = parseRequiredPairs('[{ "foreground": "Muted", "background": "Paper" }]');
+    const [apcaResult] = checkPairs(palette, pairs, { algorithm: 'apca' });
+    expect(apcaResult.required?.label).toBe('Lc 60');
+    expect(apcaResult.passes).toBe(false);
+    const [nonText] = checkPairs(palette, [{ ...pairs[0], target: 'non-text' }], { algorithm: 'apca' });
+    expect(nonText.required?.label).toBe('Lc 30');
+  });
+
+  it('rejects levels the target does not have', () => {
+    const check = (level: string, algorithm: 'wcag2' | 'apca') => () => checkPairs(
+      palette,
+      parseRequiredPairs(JSON.stringify([{ foreground: 'Ink', background: 'Paper', level }])),
+      { algorithm }
+    );
+    expect(check('AAAA', 'wcag2')).toThrow('Pair 1 has an unknown level "AAAA"; Normal text in WCAG 2 has "AAA", "AA"');
+    expect(check('AA', 'apca')).toThrow('Pair 1 has an unknown level "AA"');
+    expect(check('Lc 75', 'apca')).not.toThrow();
+  });
+
+  it('rejects pairs files of the wrong shape', () => {
+    expect(() => parseRequiredPairs('{}')).toThrow('Pairs file must contain a JSON array');
+    expect(() => parseRequiredPairs('[{ "foreground": "Ink" }]')).toThrow('Pair 1 needs "foreground" and "background"');
+    expect(() => parseRequiredPairs('[{ "foreground": "Ink", "background": "Paper", "target": "huge" }]'))
+      .toThrow('Pair 1 has an unknown target "huge"');
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Framework-free contrast checking: parsing color lists and palette files,
+ * measuring contrast and grading it against target levels. Shared by the app
+ * and the command-line checker, so nothing here may touch the DOM.
+ */
+import {
+  CONTRAST_ALGORITHMS,
+  ContrastAlgorithm,
+  ContrastAlgorithmId,
+  ContrastLevel,
+  compositeOver,
+  getContrastLevel,
+} from './contrast';
+import { CustomLevels, DEFAULT_CUSTOM_LEVELS, TargetId, getTargetProfile, isTargetId } from './targets';
+import { isValidColor, parseCssColor } from './cssColor';
+import { GradientSample, getGradientSamples, isGradient, isValidBackground, parseGradient } from './gradient';
+import { ImportedToken, detectTokenFormat, parseTokens } from './tokens';
+import { ColorEntry } from './types';
+
+/* ---------- Parsing ---------- */
+
+// Where the color at the start of a line ends: the first space or comma
+// outside a color function's parentheses
+const findColorEnd = (input: string): number => {
+  let depth = 0;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === '(') depth++;
+    else if (char === ')') depth = Math.max(0, depth - 1);
+    else if (depth === 0 && (char === ',' || /\s/.test(char))) return i;
+  }
+  return -1;
+};
+
+// Bare 6 or 8 digit hex gets its "#"; shorter digit runs read too easily as words
+const normalizeHex = (color: string): string =>
+  /^([0-9A-Fa-f]{6}|[0-9A-Fa-f]{8})$/.test(color) ? `#${color}` : color;
+
+/**
+ * One line of the grid textareas: a color followed by an optional label,
+ * separated by a comma or space. The label keeps its separator so the
+ * textarea round-trips exactly, and may be quoted to contain commas.
+ */
+export const parseColorInput = (input: string): ColorEntry => {
+  const colorEndIndex = findColorEnd(input);
+  if (colorEndIndex === -1) return { color: normalizeHex(input) };
+
+  const colorPart = input.substring(0, colorEndIndex);
+  const labelPart = input.substring(colorEndIndex);
+
+  return {
+    color: normalizeHex(colorPart),
+    label: labelPart || undefined
+  };
+};
+
+export interface LineError {
+  // 1-based, as shown to the user
+  line: number;
+  message: string;
+}
+
+/**
+ * Problems with the entries of a textarea, one per line at most. Lines listed
+ * here render as invalid cells instead of a measured contrast. Gradients are
+ * only read in background lists.
+ */
+export const getLineErrors = (entries: ColorEntry[], allowGradients = false): LineError[] =>
+  entries.flatMap((entry, index) => {
+    if (!entry.color) {
+      return [{ line: index + 1, message: entry.label ? 'Line must start with a color' : 'Empty line' }];
+    }
+    if (isGradient(entry.color) && !allowGradients) {
+      return [{ line: index + 1, message: 'Gradients can only be used as backgrounds' }];
+    }
+    const { error } = isGradient(entry.color) ? parseGradient(entry.color) : parseCssColor(entry.color);
+    if (error) return [{ line: index + 1, message: error }];
+    const quotes = (entry.label?.match(/"/g) ?? []).length;
+    return quotes % 2 === 1 ? [{ line: index + 1, message: 'Label has an unclosed quote' }] : [];
+  });
+
+export const parseColorLines = (text: string): ColorEntry[] => text.split('\n').map(parseColorInput);
+
+export interface PaletteParseResult {
+  colors: ImportedToken[];
+  warnings: string[];
+}
+
+// "name,color" rows; a header row and blank lines are skipped
+const parseCsvPalette = (source: string): PaletteParseResult => {
+  const colors: ImportedToken[] = [];
+  const warnings: string[] = [];
+  source.split(/\r?\n/).forEach((line, index) => {
+    // Only the first comma separates, so rgb(0, 0, 0) stays whole
+    const comma = line.indexOf(',');
+    const [name, color] = (comma === -1 ? [line] : [line.slice(0, comma), line.slice(comma + 1)])
+      .map(cell => cell.trim().replace(/^"|"$/g, ''));
+    if (!name || (index === 0 && !isValidColor(color ?? ''))) return;
+    if (color && isValidColor(color)) {
+      colors.push({ name, color });
+    } else {
+      warnings.push(`Line ${index + 1}: "${line.trim()}" is not a name,color pair`);
+    }
+  });
+  return { colors, warnings };
+};
+
+// Plain { "name": "#hex" } maps or [{ "name", "color" }] lists
+const parseJsonPalette = (source: string): PaletteParseResult | null => {
+  const data = JSON.parse(source) as unknown;
+  const entries: [string, unknown][] = Array.isArray(data)
+    ? data.map((item, index) => [String(item?.name ?? index), item?.color])
+    : typeof data === 'object' && data !== null
+      ? Object.entries(data)
+      : [];
+  if (!entries.some(([, color]) => typeof color === 'string')) return null;
+
+  const colors: ImportedToken[] = [];
+  const warnings: string[] = [];
+  entries.forEach(([name, color]) => {
+    if (typeof color === 'string' && isValidColor(color)) {
+      colors.push({ name, color });
+    } else {
+      warnings.push(`"${name}" is not a color`);
+    }
+  });
+  return { colors, warnings };
+};
+
+/**
+ * Reads a palette from CSV, a plain JSON map or list, or any token format the
+ * importer understands (design tokens JSON, CSS custom properties, Tailwind).
+ */
+export const parsePalette = (source: string, fileName?: string): PaletteParseResult => {
+  if (fileName?.endsWith('.csv')) return parseCsvPalette(source);
+
+  const format = detectTokenFormat(source, fileName);
+  if (format === 'dtcg') {
+    try {
+      const plain = parseJsonPalette(source);
+      if (plain) return plain;
+    } catch (e) {
+      return { colors: [], warnings: [`Could not parse JSON: ${(e as Error).message}`] };
+    }
+  }
+
+  const result = parseTokens(source, format);
+  return { colors: result.tokens, warnings: result.warnings };
+};
+
+/* ---------- Measuring and grading ---------- */
+
+/**
+ * Opaque colors a background shows over the surface: one for a solid color,
+ * or samples along a gradient. Null when the background cannot be read.
+ */
+export const getBackgroundSamples = (background: string, surface: string): GradientSample[] | null => {
+  if (isGradient(background)) {
+    return getGradientSamples(background)?.map(sample => ({ ...sample, color: compositeOver(sample.color, surface) })) ?? null;
+  }
+  return isValidColor(background) ? [{ color: compositeOver(background, surface), weight: 1 }] : null;
+};
+
+export interface ContrastRange {
+  // Lowest contrast anywhere on the background; for APCA, the smallest magnitude
+  value: number;
+  // Weighted mean along a gradient, with the sign of `value`; unset for solid colors
+  average?: number;
+  // Effective colors where the contrast is lowest
+  foreground: string;
+  background: string;
+}
+
+export const measureOverSamples = (
+  foreground: string,
+  samples: GradientSample[],
+  algorithm: ContrastAlgorithm
+): ContrastRange => {
+  let worst: ContrastRange | undefined;
+  let total = 0;
+  samples.forEach(sample => {
+    const effective = compositeOver(foreground, sample.color);
+    const value = algorithm.compute(effective, sample.color);
+    total += Math.abs(value) * sample.weight;
+    if (!worst || Math.abs(value) < Math.abs(worst.value)) {
+      worst = { value, foreground: effective, background: sample.color };
+    }
+  });
+  const range = worst as ContrastRange;
+  return samples.length > 1 ? { ...range, average: range.value < 0 ? -total : total } : range;
+};
+
+/**
+ * Contrast of a pair after alpha compositing over the surface, including its
+ * worst and average case on a gradient background, or null when either color
+ * cannot be parsed.
+ */
+export const measureContrastRange = (
+  foreground: string,
+  background: string,
+  algorithm: ContrastAlgorithm,
+  surface = '#ffffff'
+): ContrastRange | null => {
+  const samples = getBackgroundSamples(background, surface);
+  return samples && isValidColor(foreground) ? measureOverSamples(foreground, samples, algorithm) : null;
+};
+
+// Only the value, which is the worst case on a gradient
+export const measureContrast = (
+  foreground: string,
+  background: string,
+  algorithm: ContrastAlgorithm,
+  surface = '#ffffff'
+): number | null => measureContrastRange(foreground, background, algorithm, surface)?.value ?? null;
+
+// Label of the strongest level reached, or "Failed"
+export const getLevelLabel = (value: number, levels: ContrastLevel[]): string =>
+  getContrastLevel(levels, value)?.label ?? 'Failed';
+
+// The named level, or the target's default when none is named: its usable
+// minimum (APCA Lc 60 for text), else its weakest level. Undefined for a label
+// the target does not have.
+export const getRequiredLevel = (levels: ContrastLevel[], label?: string): ContrastLevel | undefined =>
+  label === undefined
+    ? levels.find(level => level.isDefault) ?? levels[levels.length - 1]
+    : levels.find(level => level.label === label);
+
+export interface Classification {
+  // Strongest level reached, if any
+  level?: ContrastLevel;
+  // Level the pair has to meet; the target's default when unset
+  required?: ContrastLevel;
+  // A pair that names a level its target does not have never passes
+  passes: boolean;
+}
+
+export const classifyContrast = (
+  value: number,
+  levels: ContrastLevel[],
+  requiredLabel?: string
+): Classification => {
+  const required = getRequiredLevel(levels, requiredLabel);
+  return {
+    level: getContrastLevel(levels, value),
+    required,
+    passes: required ? Math.abs(value) >= required.min : requiredLabel === undefined,
+  };
+};
+
+/* ---------- Checking required pairs ---------- */
+
+export interface RequiredPair {
+  name: string;
+  // Palette color names or literal CSS colors
+  foreground: string;
+  background: string;
+  target: TargetId;
+  level?: string;
+}
+
+export interface PairCheckResult extends Classification {
+  pair: RequiredPair;
+  foreground?: string;
+  background?: string;
+  value: number | null;
+  // Why the pair could not be measured
+  error?: string;
+}
+
+export interface CheckOptions {
+  algorithm: ContrastAlgorithmId;
+  surface?: string;
+  custom?: CustomLevels;
+}
+
+/**
+ * Required pairs as a JSON array of { name?, foreground, background,
+ * target?, level? }. Throws with a readable message when the shape is wrong.
+ */
+export const parseRequiredPairs = (source: string): RequiredPair[] => {
+  const data = JSON.parse(source) as unknown;
+  if (!Array.isArray(data)) throw new Error('Pairs file must contain a JSON array');
+
+  return data.map((item, index) => {
+    const foreground = item?.foreground ?? item?.fg;
+    const background = item?.background ?? item?.bg;
+    if (typeof foreground !== 'string' || typeof background !== 'string') {
+      throw new Error(`Pair ${index + 1} needs "foreground" and "background"`);
+    }
+    if (item.target !== undefined && !isTargetId(item.target)) {
+      throw new Error(`Pair ${index + 1} has an unknown target "${item.target}"`);
+    }
+    return {
+      name: typeof item.name === 'string' ? item.name : `${foreground} on ${background}`,
+      foreground,
+      background,
+      target: item.target ?? 'text',
+      level: typeof item.level === 'string' ? item.level : undefined,
+    };
+  });
+};
+
+const resolveColor = (
+  reference: string,
+  palette: Map<string, string>,
+  isValid: (value: string) => boolean = isValidColor
+): string | undefined => palette.get(reference) ?? (isValid(reference) ? reference : undefined);
+
+/**
+ * Measures every pair against its target. Throws with a readable message when
+ * a pair names a level its target does not have for the algorithm, rather
+ * than checking it against some other level.
+ */
+export const checkPairs = (
+  palette: ImportedToken[],
+  pairs: RequiredPair[],
+  { algorithm, surface = '#ffffff', custom = DEFAULT_CUSTOM_LEVELS }: CheckOptions
+): PairCheckResult[] => {
+  pairs.forEach((pair, index) => {
+    const profile = getTargetProfile(pair.target, custom);
+    const labels = profile.levels[algorithm].map(level => level.label);
+    if (pair.level !== undefined && !labels.includes(pair.level)) {
+      throw new Error(
+        `Pair ${index + 1} has an unknown level "${pair.level}"; ${profile.name} in ` +
+        `${CONTRAST_ALGORITHMS[algorithm].name} has ${labels.map(label => `"${label}"`).join(', ') || 'no levels'}`
+      );
+    }
+  });
+
+  const colors = new Map(palette.map(token => [token.name, token.color]));
+
+  return pairs.map(pair => {
+    const levels = getTargetProfile(pair.target, custom).levels[algorithm];
+    const foreground = resolveColor(pair.foreground, colors);
+    // Backgrounds may also be literal gradients
+    const background = resolveColor(pair.background, colors, isValidBackground);
+    if (!foreground || !background) {
+      const missing = [
+        ...(foreground ? [] : [pair.foreground]),
+        ...(background ? [] : [pair.background]),
+      ];
+      return {
+        pair,
+        foreground,
+        background,
+        value: null,
+        required: getRequiredLevel(levels, pair.level),
+        passes: false,
+        error: `Unknown color ${missing.map(name => `"${name}"`).join(' and ')}`,
+      };
+    }
+
+    const value = measureContrast(foreground, background, CONTRAST_ALGORITHMS[algorithm], surface) ?? 0;
+    return { pair, foreground, background, value, ...classifyContrast(value, levels, pair.level) };
+  });
+};
@@ -0,0 +1,257 @@
+import chroma from 'chroma-js';
+import { createCache } from './cache';
+
+/*
+ * chroma-js only reads hex, named colors and the legacy comma forms of rgb()
+ * and hsl(). This module adds the CSS Color 4 syntax people paste from design
+ * tools and stylesheets, and explains why a value cannot be read. Colors
+ * outside sRGB are clipped, since contrast is defined on sRGB values.
+ */
+
+export type ColorParseResult = { color: chroma.Color; error?: undefined } | { color?: undefined; error: string };
+
+type Matrix = [number, number, number, number, number, number, number, number, number];
+
+const multiply = (m: Matrix, [x, y, z]: number[]): number[] => [
+  m[0] * x + m[1] * y + m[2] * z,
+  m[3] * x + m[4] * y + m[5] * z,
+  m[6] * x + m[7] * y + m[8] * z,
+];
+
+// Matrices and constants from the CSS Color 4 sample code
+const XYZ_D65_TO_LINEAR_SRGB: Matrix = [
+  3.2409699419045226, -1.537383177570094, -0.4986107602930034,
+  -0.9692436362808796, 1.8759675015077202, 0.04155505740717559,
+  0.05563007969699366, -0.20397695888897652, 1.0569715142428786,
+];
+const XYZ_D50_TO_D65: Matrix = [
+  0.9554734527042182, -0.023098536874261423, 0.0632593086610217,
+  -0.028369706963208136, 1.0099954580058226, 0.021041398966943008,
+  0.012314001688319899, -0.020507696433477912, 1.3303659366080753,
+];
+const LINEAR_P3_TO_XYZ_D65: Matrix = [
+  0.4865709486482162, 0.26566769316909306, 0.1982172852343625,
+  0.2289745640697488, 0.6917385218365064, 0.079286914093745,
+  0, 0.04511338185890264, 1.043944368900976,
+];
+const D50_WHITE = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+const toGamma = (value: number): number => {
+  const abs = Math.abs(value);
+  return abs > 0.0031308 ? Math.sign(value) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055) : 12.92 * value;
+};
+
+const toLinear = (value: number): number => {
+  const abs = Math.abs(value);
+  return abs > 0.04045 ? Math.sign(value) * Math.pow((abs + 0.055) / 1.055, 2.4) : value / 12.92;
+};
+
+const clip = (value: number): number => Math.min(1, Math.max(0, value));
+
+const fromLinearSrgb = (rgb: number[]): chroma.Color =>
+  chroma.gl(...(rgb.map(channel => clip(toGamma(channel))) as [number, number, number]));
+
+const fromXyzD65 = (xyz: number[]): chroma.Color => fromLinearSrgb(multiply(XYZ_D65_TO_LINEAR_SRGB, xyz));
+
+const fromXyzD50 = (xyz: number[]): chroma.Color => fromXyzD65(multiply(XYZ_D50_TO_D65, xyz));
+
+// CSS lab() is relative to D50, unlike chroma's own Lab
+const fromLab = (l: number, a: number, b: number): chroma.Color => {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const x = Math.pow(fx, 3) > LAB_EPSILON ? Math.pow(fx, 3) : (116 * fx - 16) / LAB_KAPPA;
+  const y = l > LAB_KAPPA * LAB_EPSILON ? Math.pow(fy, 3) : l / LAB_KAPPA;
+  const z = Math.pow(fz, 3) > LAB_EPSILON ? Math.pow(fz, 3) : (116 * fz - 16) / LAB_KAPPA;
+  return fromXyzD50([x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]]);
+};
+
+const fromPolar = (c: number, h: number): [number, number] => [
+  c * Math.cos((h * Math.PI) / 180),
+  c * Math.sin((h * Math.PI) / 180),
+];
+
+const fromHwb = (h: number, w: number, b: number): chroma.Color => {
+  if (w + b >= 1) {
+    const gray = w / (w + b);
+    return chroma.gl(gray, gray, gray);
+  }
+  const [r, g, bl] = chroma.hsl(h, 1, 0.5).gl();
+  return chroma.gl(...([r, g, bl].map(channel => channel * (1 - w - b) + w) as [number, number, number]));
+};
+
+/* ---------- Tokens ---------- */
+
+const NUMBER = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|grad|rad|turn)?$/i;
+
+const HUE_UNITS: Record<string, number> = { deg: 1, grad: 0.9, rad: 180 / Math.PI, turn: 360 };
+
+interface Token {
+  value: number;
+  unit: string;
+}
+
+const readToken = (token: string, name: string): Token => {
+  if (token.toLowerCase() === 'none') return { value: 0, unit: '' };
+  const match = NUMBER.exec(token);
+  if (!match) throw new Error(`"${token}" is not a number in ${name}()`);
+  return { value: Number(match[1]), unit: (match[2] ?? '').toLowerCase() };
+};
+
+// A number, or a percentage of `percentScale`
+const readChannel = (token: string, name: string, percentScale: number): number => {
+  const { value, unit } = readToken(token, name);
+  if (unit === '%') return (value / 100) * percentScale;
+  if (unit) throw new Error(`"${token}" cannot have a unit in ${name}()`);
+  return value;
+};
+
+const readHue = (token: string, name: string): number => {
+  const { value, unit } = readToken(token, name);
+  if (unit === '%') throw new Error(`Hue "${token}" cannot be a percentage in ${name}()`);
+  return value * (unit ? HUE_UNITS[unit] : 1);
+};
+
+const readAlpha = (token: string | undefined, name: string): number =>
+  token === undefined ? 1 : clip(readChannel(token, name, 1));
+
+// Channels of a color function, plus the alpha after "/" or the fourth comma
+const splitArguments = (name: string, body: string): { channels: string[]; alpha?: string } => {
+  if (body.includes(',')) {
+    const parts = body.split(',').map(part => part.trim());
+    if (parts.length < 3 || parts.length > 4 || parts.some(part => !part)) {
+      throw new Error(`${name}() needs 3 values and an optional alpha`);
+    }
+    return { channels: parts.slice(0, 3), alpha: parts[3] };
+  }
+  const [main, alpha, extra] = body.split('/').map(part => part.trim());
+  if (extra !== undefined || alpha === '') throw new Error(`${name}() has a misplaced "/"`);
+  return { channels: main.split(/\s+/).filter(Boolean), alpha };
+};
+
+const expectChannels = (name: string, channels: string[]): void => {
+  if (channels.length !== 3) {
+    throw new Error(`${name}() needs 3 values, got ${channels.length}`);
+  }
+};
+
+/* ---------- Functions ---------- */
+
+const parsePredefined = (body: string): chroma.Color => {
+  const { channels: [space, ...channels], alpha } = splitArguments('color', body);
+  expectChannels('color', channels);
+  const [a, b, c] = channels.map(channel => readChannel(channel, 'color', 1));
+  const color = (() => {
+    switch (space?.toLowerCase()) {
+      case 'srgb':
+        return fromLinearSrgb([a, b, c].map(toLinear));
+      case 'srgb-linear':
+        return fromLinearSrgb([a, b, c]);
+      case 'display-p3':
+        return fromXyzD65(multiply(LINEAR_P3_TO_XYZ_D65, [a, b, c].map(toLinear)));
+      case 'xyz':
+      case 'xyz-d65':
+        return fromXyzD65([a, b, c]);
+      case 'xyz-d50':
+        return fromXyzD50([a, b, c]);
+      default:
+        throw new Error(`Unsupported color space "${space ?? ''}" in color()`);
+    }
+  })();
+  return color.alpha(readAlpha(alpha, 'color'));
+};
+
+const parseFunction = (name: string, body: string): chroma.Color => {
+  if (name === 'color') return parsePredefined(body);
+
+  const { channels, alpha } = splitArguments(name, body);
+  if (body.includes(',') && !['rgb', 'rgba', 'hsl', 'hsla'].includes(name)) {
+    throw new Error(`${name}() values are separated by spaces, not commas`);
+  }
+  expectChannels(name, channels);
+  const [first, second, third] = channels;
+
+  const color = (() => {
+    switch (name) {
+      case 'rgb':
+      case 'rgba':
+        return chroma.gl(
+          ...(channels.map(channel => clip(readChannel(channel, name, 255) / 255)) as [number, number, number])
+        );
+      case 'hsl':
+      case 'hsla':
+        return chroma.hsl(
+          readHue(first, name),
+          clip(readChannel(second, name, 100) / 100),
+          clip(readChannel(third, name, 100) / 100)
+        );
+      case 'hwb':
+        return fromHwb(
+          readHue(first, name),
+          clip(readChannel(second, name, 100) / 100),
+          clip(readChannel(third, name, 100) / 100)
+        );
+      case 'lab':
+        return fromLab(readChannel(first, name, 100), readChannel(second, name, 125), readChannel(third, name, 125));
+      case 'lch':
+        return fromLab(readChannel(first, name, 100), ...fromPolar(readChannel(second, name, 150), readHue(third, name)));
+      case 'oklab':
+        return chroma.oklab(readChannel(first, name, 1), readChannel(second, name, 0.4), readChannel(third, name, 0.4));
+      case 'oklch':
+        return chroma.oklch(readChannel(first, name, 1), readChannel(second, name, 0.4), readHue(third, name));
+      default:
+        throw new Error(`Unknown color function ${name}()`);
+    }
+  })();
+  return color.alpha(readAlpha(alpha, name));
+};
+
+const describeInvalid = (value: string): string => {
+  if (value.startsWith('#')) {
+    return /^#[0-9a-f]*$/i.test(value)
+      ? `${value} needs 3, 4, 6 or 8 hex digits`
+      : `${value} contains characters that are not hex digits`;
+  }
+  if (value.includes('(')) return `Missing ")" in ${value}`;
+  return `Unknown color "${value}"`;
+};
+
+const parseCache = createCache<ColorParseResult>(5000);
+
+const parse = (input: string): ColorParseResult => {
+  const value = input.trim();
+  if (!value) return { error: 'Missing color' };
+  if (value.toLowerCase() === 'transparent') return { color: chroma(0, 0, 0).alpha(0) };
+
+  const match = /^([a-z-]+)\((.*)\)$/is.exec(value);
+  if (!match) {
+    // Hex and named colors
+    return chroma.valid(value) ? { color: chroma(value) } : { error: describeInvalid(value) };
+  }
+
+  try {
+    const color = parseFunction(match[1].toLowerCase(), match[2].trim());
+    return color.rgb(false).some(channel => isNaN(channel)) ? { error: `Cannot read ${value}` } : { color };
+  } catch (e) {
+    return { error: (e as Error).message };
+  }
+};
+
+/**
+ * Reads any CSS color a stylesheet accepts, except relative colors and
+ * keywords that depend on context such as currentColor.
+ *
+ * Results are cached, since a grid parses the same colors for every cell.
+ */
+export const parseCssColor = (input: string): ColorParseResult => parseCache(input, () => parse(input));
+
+export const isValidColor = (value: string): boolean => !parseCssColor(value).error;
+
+// Like chroma(value), but for any CSS color; throws with a readable message
+export const toChroma = (value: string): chroma.Color => {
+  const result = parseCssColor(value);
+  if (result.error !== undefined) throw new Error(result.error);
+  return result.color;
+};
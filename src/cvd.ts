@@ -0,0 +1,122 @@
+import chroma from 'chroma-js';
+import { createCache } from './cache';
+import { toChroma } from './cssColor';
+import { ColorEntry } from './types';
+
+export type CvdType = 'none' | 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+
+export interface CvdSettings {
+  type: CvdType;
+  // 0 is typical vision, 1 is the full deficiency
+  severity: number;
+  // Whether contrast is computed on the simulated colors or only displayed with them
+  recompute: boolean;
+}
+
+export const DEFAULT_CVD_SETTINGS: CvdSettings = { type: 'none', severity: 1, recompute: false };
+
+export const CVD_TYPES: { value: CvdType; label: string }[] = [
+  { value: 'none', label: 'Typical vision' },
+  { value: 'protanopia', label: 'Protanopia (red-blind)' },
+  { value: 'deuteranopia', label: 'Deuteranopia (green-blind)' },
+  { value: 'tritanopia', label: 'Tritanopia (blue-blind)' },
+  { value: 'achromatopsia', label: 'Achromatopsia (no color)' },
+];
+
+const isCvdType = (value: unknown): value is CvdType => CVD_TYPES.some(option => option.value === value);
+
+export const sanitizeCvdSettings = (value: unknown): CvdSettings => {
+  if (!value || typeof value !== 'object') return DEFAULT_CVD_SETTINGS;
+  const saved = value as Record<string, unknown>;
+  return {
+    type: isCvdType(saved.type) ? saved.type : DEFAULT_CVD_SETTINGS.type,
+    severity: typeof saved.severity === 'number' && Number.isFinite(saved.severity)
+      ? Math.min(1, Math.max(0, saved.severity))
+      : DEFAULT_CVD_SETTINGS.severity,
+    recompute: typeof saved.recompute === 'boolean' ? saved.recompute : DEFAULT_CVD_SETTINGS.recompute,
+  };
+};
+
+type Matrix = [number, number, number, number, number, number, number, number, number];
+
+// Machado, Oliveira & Fernandes (2009) matrices at severity 1.0, applied in linear RGB
+const CVD_MATRICES: Record<Exclude<CvdType, 'none'>, Matrix> = {
+  protanopia: [
+    0.152286, 1.052583, -0.204868,
+    0.114503, 0.786281, 0.099216,
+    -0.003882, -0.048116, 1.051998,
+  ],
+  deuteranopia: [
+    0.367322, 0.860646, -0.227968,
+    0.280085, 0.672501, 0.047413,
+    -0.01182, 0.04294, 0.968881,
+  ],
+  tritanopia: [
+    1.255528, -0.076749, -0.178779,
+    -0.078411, 0.930809, 0.147602,
+    0.004733, 0.691367, 0.3039,
+  ],
+  achromatopsia: [
+    0.2126, 0.7152, 0.0722,
+    0.2126, 0.7152, 0.0722,
+    0.2126, 0.7152, 0.0722,
+  ],
+};
+
+const toLinear = (channel: number): number => {
+  const value = channel / 255;
+  return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+};
+
+const fromLinear = (value: number): number => {
+  const clamped = Math.min(1, Math.max(0, value));
+  const encoded = clamped <= 0.0031308 ? clamped * 12.92 : 1.055 * Math.pow(clamped, 1 / 2.4) - 0.055;
+  return encoded * 255;
+};
+
+const simulate = (color: string, type: Exclude<CvdType, 'none'>, severity: number): string => {
+  try {
+    const source = toChroma(color);
+    const [r, g, b] = source.rgb(false).map(toLinear);
+    const m = CVD_MATRICES[type];
+    const simulated = [
+      m[0] * r + m[1] * g + m[2] * b,
+      m[3] * r + m[4] * g + m[5] * b,
+      m[6] * r + m[7] * g + m[8] * b,
+    ];
+    const mixed = [r, g, b].map((channel, i) => channel + (simulated[i] - channel) * severity);
+
+    return chroma(fromLinear(mixed[0]), fromLinear(mixed[1]), fromLinear(mixed[2]))
+      .alpha(source.alpha())
+      .hex();
+  } catch {
+    return color;
+  }
+};
+
+const simulationCache = createCache<string>(5000);
+
+/**
+ * Color as seen with the given deficiency. Partial severities blend the full
+ * simulation with the original, which approximates Machado's per-step matrices.
+ */
+export const simulateCvd = (color: string, type: CvdType, severity: number): string => {
+  if (type === 'none' || severity <= 0) return color;
+  return simulationCache(`${type}\n${severity}\n${color}`, () => simulate(color, type, severity));
+};
+
+/**
+ * Maps entries to copies with their color simulated. An entry's copy is kept
+ * for as long as the entry object lives, so contrast matrices rebuilt from the
+ * copies reuse the cells of unchanged entries.
+ */
+export const createEntrySimulator = (simulate: (color: string) => string) => {
+  const simulated = new WeakMap<ColorEntry, ColorEntry>();
+  return (entry: ColorEntry): ColorEntry => {
+    const cached = simulated.get(entry);
+    if (cached) return cached;
+    const copy = { ...entry, color: simulate(entry.color) };
+    simulated.set(entry, copy);
+    return copy;
+  };
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { CONTRAST_ALGORITHMS } from './contrast';
+import { createEntrySimulator, simulateCvd } from './cvd';
+import { keepUnchanged } from './entries';
+import { ContrastMatrix, buildContrastMatrix } from './export';
+import { DEFAULT_CUSTOM_LEVELS, getTargetProfile } from './targets';
+import { resolveEntries, storeEntries } from './themes';
+import { ColorEntry } from './types';
+
+const THEMES = ['Light', 'Dark'];
+const levels = getTargetProfile('text', DEFAULT_CUSTOM_LEVELS).levels.wcag2;
+
+const stored = {
+  fg: [{ id: 'ink', color: '#111111', modes: { Dark: '#eeeeee' } }, { id: 'muted', color: '#777777' }],
+  bg: [{ id: 'paper', color: '#ffffff', modes: { Dark: '#111111' } }, { id: 'mist', color: '#eeeeee' }],
+};
+
+const build = (fg: ColorEntry[], bg: ColorEntry[], previous?: ContrastMatrix) =>
+  buildContrastMatrix(fg, bg, CONTRAST_ALGORITHMS.wcag2, '#ffffff', () => ({ name: 'Normal text', levels }), previous);
+
+// Resolves the stored lists for the dark theme the way the app does, then edits the first row there
+const editFirstRow = (display: (entry: ColorEntry) => ColorEntry = entry => entry) => {
+  const fg = keepUnchanged([], resolveEntries(stored.fg, THEMES, 'Dark'));
+  const bg = keepUnchanged([], resolveEntries(stored.bg, THEMES, 'Dark'));
+  const before = build(fg.map(display), bg.map(display));
+
+  const edited = storeEntries([{ ...bg[0], color: '#000000' }, ...bg.slice(1)], THEMES, 'Dark');
+  const nextFg = keepUnchanged(fg, resolveEntries(stored.fg, THEMES, 'Dark'));
+  const nextBg = keepUnchanged(bg, resolveEntries(edited, THEMES, 'Dark'));
+  const after = build(nextFg.map(display), nextBg.map(display), before);
+  return { before, after };
+};
+
+describe('keepUnchanged', () => {
+  it('keeps equal entries and replaces changed ones', () => {
+    const previous = [{ id: 'a', color: '#000000', modes: { Dark: '#ffffff' } }, { id: 'b', color: '#ffffff' }];
+    const next = keepUnchanged(previous, [
+      { id: 'a', color: '#000000', modes: { Dark: '#ffffff' } },
+      { id: 'b', color: '#ffffff', label: ' White' },
+      { color: '#ffffff' },
+    ]);
+    expect(next[0]).toBe(previous[0]);
+    expect(next[1]).not.toBe(previous[1]);
+    expect(next[2]).toEqual({ color: '#ffffff' });
+  });
+
+  it('lets a themed grid reuse the cells of rows that were not edited', () => {
+    const { before, after } = editFirstRow();
+    expect(after.cells[0][0]).not.toBe(before.cells[0][0]);
+    after.cells[1].forEach((cell, column) => expect(cell).toBe(before.cells[1][column]));
+  });
+
+  it('lets a grid measured through a vision simulation reuse the cells of rows that were not edited', () => {
+    const simulateEntry = createEntrySimulator(color => simulateCvd(color, 'protanopia', 1));
+    const { before, after } = editFirstRow(simulateEntry);
+    expect(after.cells[0][0]).not.toBe(before.cells[0][0]);
+    after.cells[1].forEach((cell, column) => expect(cell).toBe(before.cells[1][column]));
+  });
+});
@@ -0,0 +1,143 @@
+import chroma from 'chroma-js';
+import { parseCssColor } from './cssColor';
+import { createId } from './storage';
+import { mapColorValue } from './gradient';
+import { fitToGamut } from './suggest';
+import { ColorEntry } from './types';
+
+// Gives entries without an id, or with one used earlier in the list, a new one
+export const withIds = (entries: ColorEntry[]): ColorEntry[] => {
+  const seen = new Set<string>();
+  let changed = false;
+  const next = entries.map(entry => {
+    if (entry.id && !seen.has(entry.id)) {
+      seen.add(entry.id);
+      return entry;
+    }
+    changed = true;
+    const id = createId();
+    seen.add(id);
+    return { ...entry, id };
+  });
+  // Unchanged lists keep their identity, so memoized views can skip them
+  return changed ? next : entries;
+};
+
+const isSameModes = (a: ColorEntry['modes'], b: ColorEntry['modes']): boolean => {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  const themes = Object.keys(a);
+  return themes.length === Object.keys(b).length && themes.every(theme => a[theme] === b[theme]);
+};
+
+const isSameEntry = (a: ColorEntry, b: ColorEntry): boolean =>
+  a.id === b.id &&
+  a.color === b.color &&
+  a.label === b.label &&
+  a.target === b.target &&
+  a.hidden === b.hidden &&
+  isSameModes(a.modes, b.modes);
+
+/**
+ * `next` with every entry that equals the previous entry of its id replaced
+ * by that earlier object. Resolving themes and reconciling textarea lines
+ * rebuild whole lists, and contrast matrices only reuse the cells of
+ * identical entries.
+ */
+export const keepUnchanged = (previous: ColorEntry[], next: ColorEntry[]): ColorEntry[] => {
+  const byId = new Map(previous.map(entry => [entry.id, entry]));
+  return next.map(entry => {
+    const earlier = entry.id ? byId.get(entry.id) : undefined;
+    return earlier && isSameEntry(earlier, entry) ? earlier : entry;
+  });
+};
+
+const isSameLine = (a: ColorEntry, b: ColorEntry): boolean => a.color === b.color && a.label === b.label;
+
+/**
+ * Carries ids and per-entry settings over to freshly parsed textarea lines.
+ * Unchanged lines at the start and end keep their entries, changed lines in
+ * between are matched by position, and any extra lines become new entries.
+ * Adding a line above an entry therefore leaves that entry's id alone.
+ */
+export const reconcileEntries = (previous: ColorEntry[], parsed: ColorEntry[]): ColorEntry[] => {
+  let start = 0;
+  while (start < previous.length && start < parsed.length && isSameLine(previous[start], parsed[start])) start++;
+  let end = 0;
+  while (
+    end < previous.length - start &&
+    end < parsed.length - start &&
+    isSameLine(previous[previous.length - 1 - end], parsed[parsed.length - 1 - end])
+  ) end++;
+
+  const changedBefore = previous.length - start - end;
+  return parsed.map((entry, index) => {
+    const source = index < start
+      ? previous[index]
+      : index >= parsed.length - end
+        ? previous[index - parsed.length + previous.length]
+        : index - start < changedBefore ? previous[index] : undefined;
+    return source
+      ? { ...entry, id: source.id, target: source.target, hidden: source.hidden, modes: source.modes }
+      : entry;
+  });
+};
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 2;
+
+export interface DuplicateGroup {
+  // List indices; the first is the entry to keep when merging
+  indices: number[];
+  // Largest ΔE between the kept entry and the others
+  distance: number;
+}
+
+/**
+ * Entries whose colors are within `threshold` ΔE (CIEDE2000) of an earlier
+ * one, grouped under that earlier entry. Colors with different alpha are
+ * never grouped, and invalid colors are skipped.
+ */
+export const findDuplicates = (entries: ColorEntry[], threshold: number): DuplicateGroup[] => {
+  const colors = entries.map(entry => parseCssColor(entry.color).color);
+  const grouped = new Set<number>();
+  const groups: DuplicateGroup[] = [];
+
+  colors.forEach((color, index) => {
+    if (!color || grouped.has(index)) return;
+    const group = { indices: [index], distance: 0 };
+    for (let other = index + 1; other < colors.length; other++) {
+      const candidate = colors[other];
+      if (!candidate || grouped.has(other) || Math.abs(candidate.alpha() - color.alpha()) > 0.01) continue;
+      const distance = chroma.deltaE(color, candidate);
+      if (distance > threshold) continue;
+      group.indices.push(other);
+      group.distance = Math.max(group.distance, distance);
+      grouped.add(other);
+    }
+    if (group.indices.length > 1) groups.push(group);
+  });
+  return groups;
+};
+
+export type BulkAdjustment =
+  | { kind: 'lightness'; amount: number }
+  | { kind: 'hue'; amount: number };
+
+const adjustSolidColor = (color: string, adjustment: BulkAdjustment): string => {
+  const { color: source } = parseCssColor(color);
+  if (!source) return color;
+  const [l, c, h] = source.oklch();
+  const hue = isNaN(h) ? 0 : h;
+  const adjusted = adjustment.kind === 'lightness'
+    ? fitToGamut(Math.min(1, Math.max(0, l + adjustment.amount)), c, hue, source.alpha())
+    : fitToGamut(l, c, (hue + adjustment.amount + 360) % 360, source.alpha());
+  return adjusted.hex().toUpperCase();
+};
+
+/**
+ * Shifts OKLCH lightness (amount in 0-1) or hue (degrees), keeping chroma
+ * where the gamut allows and alpha as is. Gradients have every stop shifted,
+ * and invalid colors are returned as is.
+ */
+export const adjustColor = (value: string, adjustment: BulkAdjustment): string =>
+  mapColorValue(value, color => adjustSolidColor(color, adjustment));
@@ -0,0 +1,266 @@
+import { ContrastAlgorithm, ContrastLevel, getContrastLevel } from './contrast';
+import { getBackgroundSamples, measureOverSamples } from './core';
+import { isValidColor } from './cssColor';
+import { isGradient } from './gradient';
+
+export type ExportFormat = 'csv' | 'json' | 'markdown' | 'html';
+
+interface MatrixEntry {
+  color: string;
+  label?: string;
+}
+
+export interface MatrixCell {
+  foreground: MatrixEntry;
+  background: MatrixEntry;
+  // Colors after alpha compositing, null when either input is invalid; on a
+  // gradient, where the contrast is lowest
+  effectiveForeground: string | null;
+  effectiveBackground: string | null;
+  // The worst case on a gradient background, which `average` accompanies
+  value: number | null;
+  average?: number;
+  target: string;
+  level: string | null;
+  passes: boolean;
+}
+
+export interface ContrastMatrix {
+  algorithm: ContrastAlgorithm;
+  surface: string;
+  columns: MatrixEntry[];
+  rows: MatrixEntry[];
+  // Indexed [row][column], following the grid order
+  cells: MatrixCell[][];
+}
+
+// Labels keep the separator typed in the textarea, e.g. " White" or ', "Red, warm"'
+export const cleanLabel = (entry: MatrixEntry): string =>
+  (entry.label ?? '').replace(/^[\s,]+/, '').trim().replace(/^"(.*)"$/, '$1');
+
+const displayName = (entry: MatrixEntry): string => cleanLabel(entry) || entry.color;
+
+/**
+ * Contrast of every column (foreground) on every row (background). With a
+ * `previous` matrix built with the same algorithm, surface and target levels,
+ * cells whose entries are unchanged are reused, so editing one color only
+ * recomputes its row or column.
+ */
+export const buildContrastMatrix = <T extends MatrixEntry>(
+  columns: T[],
+  rows: T[],
+  algorithm: ContrastAlgorithm,
+  surface: string,
+  getTarget: (foreground: T, background: T) => { name: string; levels: ContrastLevel[] },
+  previous?: ContrastMatrix
+): ContrastMatrix => {
+  const reusable = previous?.algorithm === algorithm && previous.surface === surface ? previous : undefined;
+  // Parsing, sampling and blending over the surface happen once per row and column, not per cell
+  const validColumns = columns.map(foreground => isValidColor(foreground.color));
+  const cells = rows.map((background, row) => {
+    const previousRow = reusable?.rows[row] === background ? reusable.cells[row] : undefined;
+    const samples = getBackgroundSamples(background.color, surface);
+    return columns.map((foreground, column) => {
+      if (previousRow && reusable?.columns[column] === foreground) return previousRow[column];
+      const target = getTarget(foreground, background);
+      const measured = samples && validColumns[column] ? measureOverSamples(foreground.color, samples, algorithm) : null;
+      const value = measured?.value ?? null;
+      const level = value !== null ? getContrastLevel(target.levels, value) : undefined;
+
+      return {
+        foreground,
+        background,
+        effectiveForeground: measured?.foreground ?? null,
+        effectiveBackground: measured?.background ?? null,
+        value,
+        average: measured?.average,
+        target: target.name,
+        level: level?.label ?? null,
+        passes: Boolean(level),
+      };
+    });
+  });
+
+  return { algorithm, surface, columns, rows, cells };
+};
+
+// Gradient backgrounds report their worst case, followed by the average
+const formatValue = (matrix: ContrastMatrix, cell: MatrixCell): string => {
+  if (cell.value === null) return 'invalid';
+  const value = matrix.algorithm.format(cell.value);
+  return cell.average === undefined ? value : `${value} (avg ${matrix.algorithm.format(cell.average)})`;
+};
+
+const escapeCsv = (value: string): string =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const toCsv = (matrix: ContrastMatrix): string => {
+  const header = [
+    'foreground_label', 'foreground', 'background_label', 'background',
+    'value', 'level', 'pass', 'target', 'average',
+  ];
+  const lines = matrix.cells.flat().map(cell => [
+    cleanLabel(cell.foreground),
+    cell.foreground.color,
+    cleanLabel(cell.background),
+    cell.background.color,
+    cell.value === null ? '' : cell.value.toFixed(2),
+    cell.level ?? '',
+    cell.passes ? 'true' : 'false',
+    cell.target,
+    cell.average === undefined ? '' : cell.average.toFixed(2),
+  ].map(escapeCsv).join(','));
+  return [header.join(','), ...lines].join('\n');
+};
+
+const toJson = (matrix: ContrastMatrix): string => JSON.stringify({
+  algorithm: matrix.algorithm.id,
+  surface: matrix.surface,
+  columns: matrix.columns.map(entry => ({ color: entry.color, label: cleanLabel(entry) })),
+  rows: matrix.rows.map(entry => ({ color: entry.color, label: cleanLabel(entry) })),
+  cells: matrix.cells.flat().map(cell => ({
+    foreground: cell.foreground.color,
+    foregroundLabel: cleanLabel(cell.foreground),
+    background: cell.background.color,
+    backgroundLabel: cleanLabel(cell.background),
+    effectiveForeground: cell.effectiveForeground,
+    effectiveBackground: cell.effectiveBackground,
+    value: cell.value === null ? null : Number(cell.value.toFixed(2)),
+    ...(cell.average === undefined ? {} : { average: Number(cell.average.toFixed(2)) }),
+    level: cell.level,
+    pass: cell.passes,
+    target: cell.target,
+  })),
+}, null, 2);
+
+const escapeMarkdown = (value: string): string => value.replace(/\|/g, '\\|');
+
+const toMarkdown = (matrix: ContrastMatrix): string => {
+  const header = ['Background \\ Foreground', ...matrix.columns.map(entry => escapeMarkdown(displayName(entry)))];
+  const rows = matrix.cells.map((row, rowIndex) => [
+    escapeMarkdown(displayName(matrix.rows[rowIndex])),
+    ...row.map(cell => `${formatValue(matrix, cell)} ${cell.level ? `✓ ${cell.level}` : '✕'}`),
+  ]);
+
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.join(' | ')} |`),
+  ].join('\n');
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Gradients are drawn over the surface; the text color is the one blended at the worst point
+const cellBackground = (matrix: ContrastMatrix, cell: MatrixCell): string => {
+  if (!cell.effectiveBackground) return 'transparent';
+  return isGradient(cell.background.color) ? `${cell.background.color}, ${matrix.surface}` : cell.effectiveBackground;
+};
+
+const toHtml = (matrix: ContrastMatrix): string => {
+  const failing = matrix.cells.flat().filter(cell => !cell.passes);
+  const total = matrix.rows.length * matrix.columns.length;
+
+  const headerCells = matrix.columns.map(entry => `
+        <th>
+          <span class="swatch" style="background:${escapeHtml(entry.color)}"></span>
+          <div>${escapeHtml(displayName(entry))}</div>
+          <code>${escapeHtml(entry.color)}</code>
+        </th>`).join('');
+
+  const bodyRows = matrix.cells.map((row, rowIndex) => {
+    const background = matrix.rows[rowIndex];
+    const cells = row.map(cell => `
+        <td style="background:${escapeHtml(cellBackground(matrix, cell))};color:${cell.effectiveForeground ?? 'inherit'}">
+          <strong>${escapeHtml(formatValue(matrix, cell))}</strong>
+          <div>${cell.level ? `✓ ${escapeHtml(cell.level)}` : '✕ Failed'}</div>
+        </td>`).join('');
+    return `
+      <tr>
+        <th>
+          <span class="swatch" style="background:${escapeHtml(background.color)}"></span>
+          <div>${escapeHtml(displayName(background))}</div>
+          <code>${escapeHtml(background.color)}</code>
+        </th>${cells}
+      </tr>`;
+  }).join('');
+
+  const failingItems = failing.map(cell => `
+      <li>
+        <strong>${escapeHtml(displayName(cell.foreground))}</strong> on
+        <strong>${escapeHtml(displayName(cell.background))}</strong>:
+        ${escapeHtml(formatValue(matrix, cell))} (${escapeHtml(cell.target)})
+      </li>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Contrast Report</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #0f172a; }
+    table { border-collapse: collapse; margin: 1.5rem 0; }
+    th, td { border: 1px solid #e2e8f0; padding: 0.75rem; text-align: center; white-space: nowrap; }
+    th { background: #f8fafc; font-weight: 500; font-size: 0.875rem; }
+    td strong { font-size: 1.125rem; }
+    td div { font-size: 0.75rem; margin-top: 0.25rem; }
+    code { font-size: 0.75rem; color: #64748b; }
+    .swatch { display: inline-block; width: 1.5rem; height: 1.5rem; border: 1px solid #e2e8f0; border-radius: 0.25rem; }
+  </style>
+</head>
+<body>
+  <h1>Contrast Report</h1>
+  <p>
+    ${escapeHtml(matrix.algorithm.name)} &middot; ${total - failing.length} of ${total} pairs pass
+    &middot; generated ${escapeHtml(new Date().toISOString())}
+  </p>
+  <table>
+    <thead>
+      <tr>
+        <th>Background \\ Foreground</th>${headerCells}
+      </tr>
+    </thead>
+    <tbody>${bodyRows}
+    </tbody>
+  </table>
+  <h2>Failing pairs (${failing.length})</h2>
+  ${failing.length > 0 ? `<ul>${failingItems}
+  </ul>` : '<p>All pairs meet their target.</p>'}
+</body>
+</html>
+`;
+};
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  html: { label: 'HTML report', extension: 'html', mimeType: 'text/html' },
+};
+
+export const exportMatrix = (matrix: ContrastMatrix, format: ExportFormat): string => {
+  switch (format) {
+    case 'csv':
+      return toCsv(matrix);
+    case 'json':
+      return toJson(matrix);
+    case 'markdown':
+      return toMarkdown(matrix);
+    case 'html':
+      return toHtml(matrix);
+  }
+};
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,219 @@
+import chroma from 'chroma-js';
+import { createCache } from './cache';
+import { parseCssColor } from './cssColor';
+
+/*
+ * Background entries may be CSS linear or radial gradients. They are rendered
+ * as written, and contrast is measured against colors sampled along the
+ * gradient line, so a cell can report the worst case anywhere on the
+ * background as well as the average. Only percentage stop positions are
+ * placed; other lengths depend on the element size and are spread evenly like
+ * stops without a position. Color hints are ignored.
+ */
+
+type InterpolationMode = 'rgb' | 'lrgb' | 'lab' | 'lch' | 'oklab' | 'oklch' | 'hsl';
+
+export interface GradientStop {
+  color: chroma.Color;
+  // 0-1 along the gradient line, after CSS position fixup
+  position: number;
+}
+
+export interface Gradient {
+  repeating: boolean;
+  // chroma-js interpolation mode for the `in <space>` argument; sRGB by default
+  mode: InterpolationMode;
+  stops: GradientStop[];
+}
+
+export type GradientParseResult = { gradient: Gradient; error?: undefined } | { gradient?: undefined; error: string };
+
+export interface GradientSample {
+  color: string;
+  // Share of the gradient line the sample stands for; weights sum to 1
+  weight: number;
+}
+
+const GRADIENT_FUNCTION = /^(repeating-)?(linear|radial)-gradient\((.*)\)$/is;
+
+const INTERPOLATION_MODES: Record<string, InterpolationMode> = {
+  srgb: 'rgb',
+  'srgb-linear': 'lrgb',
+  lab: 'lab',
+  lch: 'lch',
+  oklab: 'oklab',
+  oklch: 'oklch',
+  hsl: 'hsl',
+};
+
+// Evenly spaced points along the gradient line, plus every stop
+const SAMPLE_COUNT = 64;
+
+const LENGTH = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[a-z]+|%)?$/i;
+
+// How the direction, shape or interpolation argument before the first stop can start
+const PRELUDE = /^(?:to|in|at|circle|ellipse|closest-side|closest-corner|farthest-side|farthest-corner|[+-]?[\d.])/i;
+
+export const isGradient = (value: string): boolean => GRADIENT_FUNCTION.test(value.trim());
+
+// Splits on a separator outside parentheses, e.g. the commas between stops
+const splitTopLevel = (input: string, separator: RegExp): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of input) {
+    if (char === '(') depth++;
+    else if (char === ')') depth = Math.max(0, depth - 1);
+    if (depth === 0 && separator.test(char)) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.map(part => part.trim()).filter(Boolean);
+};
+
+const readPosition = (token: string): number | undefined => {
+  if (!LENGTH.test(token)) throw new Error(`Cannot read stop position "${token}"`);
+  if (token.endsWith('%')) return parseFloat(token) / 100;
+  return parseFloat(token) === 0 ? 0 : undefined;
+};
+
+// CSS fixup: the ends default to 0 and 1, positions never go backwards, and
+// runs of unplaced stops are spread evenly between their placed neighbors
+const placeStops = (stops: { color: chroma.Color; position?: number }[]): GradientStop[] => {
+  const positions = stops.map(stop => stop.position);
+  if (positions[0] === undefined) positions[0] = 0;
+  if (positions[positions.length - 1] === undefined) positions[positions.length - 1] = 1;
+  let highest = -Infinity;
+  positions.forEach((position, index) => {
+    if (position === undefined) return;
+    highest = Math.max(highest, position);
+    positions[index] = highest;
+  });
+  for (let start = 0; start < positions.length; start++) {
+    if (positions[start] !== undefined) continue;
+    let end = start;
+    while (positions[end] === undefined) end++;
+    const from = positions[start - 1] as number;
+    const to = positions[end] as number;
+    for (let index = start; index < end; index++) {
+      positions[index] = from + ((to - from) * (index - start + 1)) / (end - start + 1);
+    }
+    start = end;
+  }
+  return stops.map((stop, index) => ({ color: stop.color, position: positions[index] as number }));
+};
+
+const parse = (input: string): GradientParseResult => {
+  const match = GRADIENT_FUNCTION.exec(input.trim());
+  if (!match) return { error: `"${input}" is not a linear or radial gradient` };
+  const [, repeating, , body] = match;
+  const parts = splitTopLevel(body, /,/);
+
+  let mode: InterpolationMode = 'rgb';
+  const stops: { color: chroma.Color; position?: number }[] = [];
+  try {
+    parts.forEach((part, index) => {
+      const [first, ...positions] = splitTopLevel(part, /\s/);
+      const parsed = parseCssColor(first);
+      if (parsed.color) {
+        if (positions.length > 2) throw new Error(`Too many positions in "${part}"`);
+        const placed = positions.map(readPosition);
+        if (placed.length === 0) stops.push({ color: parsed.color });
+        placed.forEach(position => stops.push({ color: parsed.color, position }));
+        return;
+      }
+      // A lone length between stops is a color hint
+      if (stops.length > 0 && positions.length === 0 && LENGTH.test(first)) return;
+      if (index > 0 || !PRELUDE.test(first)) throw new Error(`${parsed.error} in gradient`);
+
+      // Direction, shape and interpolation come before the first stop
+      const space = /\bin\s+([a-z0-9-]+)/i.exec(part)?.[1].toLowerCase();
+      if (space) {
+        if (!INTERPOLATION_MODES[space]) throw new Error(`Gradients in ${space} are not supported`);
+        mode = INTERPOLATION_MODES[space];
+      }
+    });
+  } catch (e) {
+    return { error: (e as Error).message };
+  }
+
+  if (stops.length === 0) return { error: 'Gradient needs at least one color' };
+  return { gradient: { repeating: Boolean(repeating), mode, stops: placeStops(stops) } };
+};
+
+const parseCache = createCache<GradientParseResult>(1000);
+
+export const parseGradient = (input: string): GradientParseResult => parseCache(input, () => parse(input));
+
+export const isValidBackground = (value: string): boolean =>
+  isGradient(value) ? !parseGradient(value).error : !parseCssColor(value).error;
+
+// Browsers interpolate sRGB with premultiplied alpha, so fading to transparent
+// does not darken the color on the way
+const mix = (from: chroma.Color, to: chroma.Color, amount: number, mode: InterpolationMode): chroma.Color => {
+  const alpha = from.alpha() + (to.alpha() - from.alpha()) * amount;
+  if (mode !== 'rgb' || from.alpha() === to.alpha()) return chroma.mix(from, to, amount, mode).alpha(alpha);
+  if (alpha === 0) return chroma(0, 0, 0).alpha(0);
+  const [r1, g1, b1] = from.rgb(false).map(channel => channel * from.alpha());
+  const [r2, g2, b2] = to.rgb(false).map(channel => channel * to.alpha());
+  const channel = (a: number, b: number) => Math.min(255, Math.max(0, (a + (b - a) * amount) / alpha));
+  return chroma(channel(r1, r2), channel(g1, g2), channel(b1, b2)).alpha(alpha);
+};
+
+const colorAt = ({ repeating, mode, stops }: Gradient, point: number): chroma.Color => {
+  const first = stops[0].position;
+  const last = stops[stops.length - 1].position;
+  let position = point;
+  if (repeating && last > first) {
+    position = first + ((((point - first) % (last - first)) + (last - first)) % (last - first));
+  }
+  if (position <= first) return stops[0].color;
+  const next = stops.findIndex(stop => stop.position > position);
+  if (next === -1) return stops[stops.length - 1].color;
+  const from = stops[next - 1];
+  const to = stops[next];
+  return mix(from.color, to.color, (position - from.position) / (to.position - from.position), mode);
+};
+
+const sampleCache = createCache<GradientSample[] | null>(1000);
+
+/**
+ * Colors along the visible part of the gradient line, with the share of the
+ * line each one stands for. Every stop inside the line is included, so the
+ * lowest contrast is found even at a hard color change. Null for anything
+ * that is not a valid gradient.
+ */
+export const getGradientSamples = (value: string): GradientSample[] | null => sampleCache(value, () => {
+  const { gradient } = parseGradient(value);
+  if (!gradient) return null;
+
+  const points = [
+    ...Array.from({ length: SAMPLE_COUNT + 1 }, (_, index) => index / SAMPLE_COUNT),
+    ...gradient.stops.map(stop => stop.position).filter(position => position > 0 && position < 1),
+  ].sort((a, b) => a - b);
+  return points.map((point, index) => ({
+    color: colorAt(gradient, point).hex(),
+    weight: ((points[index + 1] ?? point) - (points[index - 1] ?? point)) / 2,
+  }));
+});
+
+/**
+ * Applies `map` to a color, or to every stop color of a gradient, e.g. to
+ * simulate color vision deficiency on a whole background. Values that cannot
+ * be read are returned as they are.
+ */
+export const mapColorValue = (value: string, map: (color: string) => string): string => {
+  if (!isGradient(value)) return parseCssColor(value).error ? value : map(value);
+  const match = GRADIENT_FUNCTION.exec(value.trim());
+  if (!match || parseGradient(value).error) return value;
+  const [, repeating = '', kind, body] = match;
+  const parts = splitTopLevel(body, /,/).map(part => {
+    const [first, ...rest] = splitTopLevel(part, /\s/);
+    return parseCssColor(first).error ? part : [map(first), ...rest].join(' ');
+  });
+  return `${repeating}${kind}-gradient(${parts.join(', ')})`;
+};
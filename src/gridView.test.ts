@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { CONTRAST_ALGORITHMS } from './contrast';
+import { simulateCvd } from './cvd';
+import { buildContrastMatrix, exportMatrix } from './export';
+import { DEFAULT_GRID_VIEW, applyGridView, getGridView } from './gridView';
+import { DEFAULT_CUSTOM_LEVELS, getTargetProfile } from './targets';
+
+const levels = getTargetProfile('text', DEFAULT_CUSTOM_LEVELS).levels.wcag2;
+const matrix = buildContrastMatrix(
+  [{ color: '#000000', label: ' Black' }, { color: '#777777', label: ' Gray' }, { color: '#FF0000', label: ' Red' }],
+  [{ color: '#FFFFFF', label: ' White' }, { color: '#EEEEEE', label: ' Mist' }],
+  CONTRAST_ALGORITHMS.wcag2,
+  '#FFFFFF',
+  () => ({ name: 'Normal text', levels })
+);
+
+describe('applyGridView', () => {
+  it('keeps only the displayed rows and columns, in display order', () => {
+    const view = getGridView(
+      matrix,
+      { rows: [false, true], columns: [false, false, false] },
+      { ...DEFAULT_GRID_VIEW, sortColumns: 'worst' }
+    );
+    const shown = applyGridView(matrix, view);
+    expect(shown.rows.map(row => row.label)).toEqual([' White']);
+    expect(shown.columns.map(column => column.label)).toEqual([' Red', ' Gray', ' Black']);
+    expect(shown.cells[0].map(cell => cell.foreground.label)).toEqual([' Red', ' Gray', ' Black']);
+    expect(exportMatrix(shown, 'csv').split('\n')).toHaveLength(4);
+  });
+
+  it('leaves out filtered-out entries', () => {
+    const view = getGridView(matrix, { rows: [false, false], columns: [false, false, false] }, {
+      ...DEFAULT_GRID_VIEW,
+      filter: 'level:AAA',
+    });
+    const shown = applyGridView(matrix, view);
+    expect(shown.columns.map(column => column.label)).toEqual([' Black']);
+    expect(shown.rows).toHaveLength(2);
+  });
+});
+
+describe('exported views', () => {
+  it('filter by the exported values, not by a simulation the grid measures through', () => {
+    const protan = (color: string) => simulateCvd(color, 'protanopia', 1);
+    const columns = [{ color: '#FF0000', label: ' Red' }, { color: '#777777', label: ' Gray' }];
+    const rows = [{ color: '#FFFFFF', label: ' White' }, { color: '#000000', label: ' Black' }];
+    const build = (simulate: (color: string) => string) => buildContrastMatrix(
+      columns.map(entry => ({ ...entry, color: simulate(entry.color) })),
+      rows.map(entry => ({ ...entry, color: simulate(entry.color) })),
+      CONTRAST_ALGORITHMS.wcag2,
+      simulate('#FFFFFF'),
+      () => ({ name: 'Normal text', levels })
+    );
+    const exported = build(color => color);
+    const simulated = build(protan);
+    const hidden = { rows: [false, false], columns: [false, false] };
+    const settings = { ...DEFAULT_GRID_VIEW, filter: 'passing' as const };
+
+    // Red passes on white only under the simulation
+    expect(applyGridView(exported, getGridView(simulated, hidden, settings)).rows).toHaveLength(2);
+    const shown = applyGridView(exported, getGridView(exported, hidden, settings));
+    expect(shown.rows.map(row => row.label)).toEqual([' Black']);
+    expect(shown.cells.flat().every(cell => cell.passes)).toBe(true);
+  });
+});
@@ -0,0 +1,150 @@
+import { ContrastMatrix, MatrixCell } from './export';
+
+export type CellFilter = 'all' | 'passing' | 'failing' | `level:${string}`;
+
+export type SortOrder = 'manual' | 'best' | 'worst';
+
+export interface GridViewSettings {
+  filter: CellFilter;
+  sortRows: SortOrder;
+  sortColumns: SortOrder;
+}
+
+export const DEFAULT_GRID_VIEW: GridViewSettings = {
+  filter: 'all',
+  sortRows: 'manual',
+  sortColumns: 'manual',
+};
+
+export const SORT_ORDERS: { value: SortOrder; label: string }[] = [
+  { value: 'manual', label: 'Manual order' },
+  { value: 'best', label: 'Best ratio first' },
+  { value: 'worst', label: 'Worst ratio first' },
+];
+
+const FILTERS = ['all', 'passing', 'failing'];
+
+export const isCellFilter = (value: unknown): value is CellFilter =>
+  typeof value === 'string' && (FILTERS.includes(value) || value.startsWith('level:'));
+
+const isSortOrder = (value: unknown): value is SortOrder =>
+  SORT_ORDERS.some(option => option.value === value);
+
+export const sanitizeGridView = (value: unknown): GridViewSettings => {
+  if (!value || typeof value !== 'object') return DEFAULT_GRID_VIEW;
+  const saved = value as Record<string, unknown>;
+  return {
+    filter: isCellFilter(saved.filter) ? saved.filter : 'all',
+    sortRows: isSortOrder(saved.sortRows) ? saved.sortRows : 'manual',
+    sortColumns: isSortOrder(saved.sortColumns) ? saved.sortColumns : 'manual',
+  };
+};
+
+export const matchesFilter = (cell: MatrixCell, filter: CellFilter): boolean => {
+  if (filter === 'all') return true;
+  if (cell.value === null) return false;
+  if (filter === 'passing') return cell.passes;
+  if (filter === 'failing') return !cell.passes;
+  return cell.level === filter.slice('level:'.length);
+};
+
+export interface GridView {
+  // Indices into the unfiltered rows and columns, in display order
+  rows: number[];
+  columns: number[];
+}
+
+// Invalid cells have no value and always sort last
+const sortIndices = (indices: number[], magnitudes: (index: number) => number[], order: SortOrder): number[] => {
+  if (order === 'manual') return indices;
+  const score = (index: number): number => {
+    const values = magnitudes(index);
+    if (values.length === 0) return order === 'best' ? -Infinity : Infinity;
+    return order === 'best' ? Math.max(...values) : Math.min(...values);
+  };
+  const scored = indices.map(index => ({ index, score: score(index) }));
+  scored.sort((a, b) => (order === 'best' ? b.score - a.score : a.score - b.score));
+  return scored.map(({ index }) => index);
+};
+
+/**
+ * Rows and columns to display: hidden entries are dropped, then any row or
+ * column without a cell matching the filter, then the rest are sorted by
+ * their best or worst contrast magnitude among the remaining cells.
+ */
+export const getGridView = (
+  matrix: ContrastMatrix,
+  hidden: { rows: boolean[]; columns: boolean[] },
+  settings: GridViewSettings
+): GridView => {
+  const visibleRows = matrix.rows.map((_, i) => i).filter(i => !hidden.rows[i]);
+  const visibleColumns = matrix.columns.map((_, i) => i).filter(i => !hidden.columns[i]);
+  const matches = (row: number, column: number) => matchesFilter(matrix.cells[row][column], settings.filter);
+
+  const rows = visibleRows.filter(row => visibleColumns.some(column => matches(row, column)));
+  const columns = visibleColumns.filter(column => rows.some(row => matches(row, column)));
+
+  const magnitude = (row: number, column: number): number[] => {
+    const value = matrix.cells[row][column].value;
+    return value === null || !matches(row, column) ? [] : [Math.abs(value)];
+  };
+
+  return {
+    rows: sortIndices(rows, row => columns.flatMap(column => magnitude(row, column)), settings.sortRows),
+    columns: sortIndices(columns, column => rows.flatMap(row => magnitude(row, column)), settings.sortColumns),
+  };
+};
+
+/**
+ * The part of a matrix a view shows, in display order, so exports match the
+ * grid. The view may come from another matrix over the same entries, such as
+ * another theme's, but its filter and sort order only hold for the values it
+ * was taken from.
+ */
+export const applyGridView = (matrix: ContrastMatrix, view: GridView): ContrastMatrix => ({
+  ...matrix,
+  rows: view.rows.map(row => matrix.rows[row]),
+  columns: view.columns.map(column => matrix.columns[column]),
+  cells: view.rows.map(row => view.columns.map(column => matrix.cells[row][column])),
+});
+
+export interface LevelCount {
+  label: string;
+  count: number;
+}
+
+export interface GridSummary {
+  total: number;
+  passing: number;
+  // Every level reached, strongest first, followed by failures and invalid cells
+  levels: LevelCount[];
+  // For each displayed column, the displayed rows where it passes
+  safeBackgrounds: { column: number; rows: number[] }[];
+}
+
+export const summarizeGrid = (matrix: ContrastMatrix, view: GridView): GridSummary => {
+  const cells = view.rows.flatMap(row => view.columns.map(column => matrix.cells[row][column]));
+  const counts = new Map<string, { count: number; strength: number }>();
+  for (const cell of cells) {
+    const label = cell.value === null ? 'Invalid' : cell.level ?? 'Failed';
+    // Sort key: passing levels by their magnitude, then failures, then invalid cells
+    const strength = cell.value === null ? -2 : cell.level ? Math.abs(cell.value) : -1;
+    const current = counts.get(label);
+    counts.set(label, {
+      count: (current?.count ?? 0) + 1,
+      strength: Math.max(current?.strength ?? -Infinity, strength),
+    });
+  }
+
+  return {
+    total: cells.length,
+    passing: cells.filter(cell => cell.passes).length,
+    levels: [...counts.entries()]
+      .sort((a, b) => b[1].strength - a[1].strength)
+      .map(([label, { count }]) => ({ label, count })),
+    safeBackgrounds: view.columns.map(column => ({
+      column,
+      rows: view.rows.filter(row => matrix.cells[row][column].passes),
+    })),
+  };
+};
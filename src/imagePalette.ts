@@ -0,0 +1,82 @@
+import chroma from 'chroma-js';
+
+export const DEFAULT_PALETTE_SIZE = 6;
+export const MAX_PALETTE_SIZE = 16;
+
+// Images are sampled at this size at most; more pixels barely move the averages
+export const SAMPLE_SIZE = 160;
+
+export interface PaletteColor {
+  color: string;
+  // Share of the sampled opaque pixels the color stands for, 0-1
+  share: number;
+}
+
+type Pixel = [number, number, number];
+
+interface Box {
+  pixels: Pixel[];
+  channel: 0 | 1 | 2;
+  range: number;
+}
+
+const toBox = (pixels: Pixel[]): Box => {
+  const ranges = ([0, 1, 2] as const).map(channel => {
+    let min = 255;
+    let max = 0;
+    pixels.forEach(pixel => {
+      min = Math.min(min, pixel[channel]);
+      max = Math.max(max, pixel[channel]);
+    });
+    return max - min;
+  });
+  const channel = ranges.indexOf(Math.max(...ranges)) as 0 | 1 | 2;
+  return { pixels, channel, range: ranges[channel] };
+};
+
+// The median, moved to the nearest change of value so equal pixels stay together
+const splitIndex = (sorted: Pixel[], channel: 0 | 1 | 2): number => {
+  const median = Math.floor(sorted.length / 2);
+  const value = sorted[median][channel];
+  let start = median;
+  while (start > 0 && sorted[start - 1][channel] === value) start--;
+  let end = median;
+  while (end < sorted.length && sorted[end][channel] === value) end++;
+  if (start === 0) return end;
+  if (end === sorted.length) return start;
+  return median - start <= end - median ? start : end;
+};
+
+const average = (pixels: Pixel[]): string => {
+  const sum = pixels.reduce((total, pixel) => [total[0] + pixel[0], total[1] + pixel[1], total[2] + pixel[2]], [0, 0, 0]);
+  return chroma(sum[0] / pixels.length, sum[1] / pixels.length, sum[2] / pixels.length).hex();
+};
+
+/**
+ * Dominant colors of RGBA pixel data by median cut: the box of pixels with the
+ * widest channel range, weighted by its size, is split at its median until
+ * there are `count` boxes. Mostly transparent pixels are ignored.
+ */
+export const extractPalette = (data: Uint8ClampedArray, count: number): PaletteColor[] => {
+  const pixels: Pixel[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] >= 128) pixels.push([data[i], data[i + 1], data[i + 2]]);
+  }
+  if (pixels.length === 0) return [];
+
+  const boxes = [toBox(pixels)];
+  while (boxes.length < count) {
+    const scores = boxes.map(box => (box.pixels.length > 1 ? box.range * Math.sqrt(box.pixels.length) : 0));
+    const best = scores.indexOf(Math.max(...scores));
+    if (scores[best] === 0) break;
+
+    const { pixels: boxPixels, channel } = boxes[best];
+    const sorted = [...boxPixels].sort((a, b) => a[channel] - b[channel]);
+    const split = splitIndex(sorted, channel);
+    boxes.splice(best, 1, toBox(sorted.slice(0, split)), toBox(sorted.slice(split)));
+  }
+
+  return boxes
+    .map(box => ({ color: average(box.pixels), share: box.pixels.length / pixels.length }))
+    .sort((a, b) => b.share - a.share);
+};
@@ -0,0 +1,54 @@
+import { ContrastAlgorithm, ContrastLevel } from './contrast';
+import { Classification, classifyContrast, measureContrast } from './core';
+import { ColorEntry, ColorPair } from './types';
+
+export interface PairResult extends Classification {
+  value: number;
+}
+
+export const evaluatePair = (
+  pair: ColorPair,
+  foreground: string,
+  background: string,
+  algorithm: ContrastAlgorithm,
+  surface: string,
+  levels: ContrastLevel[]
+): PairResult | null => {
+  const value = measureContrast(foreground, background, algorithm, surface);
+  return value === null ? null : { value, ...classifyContrast(value, levels, pair.level) };
+};
+
+// Where an entry at `index` ends up after the entry at `from` is moved to `to`
+const moveIndex = (index: number, from: number, to: number): number => {
+  if (index === from) return to;
+  if (from < to && index > from && index <= to) return index - 1;
+  if (from > to && index >= to && index < from) return index + 1;
+  return index;
+};
+
+/**
+ * Keeps pairs pointing at the same entries when a row or column is reordered.
+ */
+export const remapPairs = (pairs: ColorPair[], axis: 'fg' | 'bg', from: number, to: number): ColorPair[] =>
+  pairs.map(pair => ({ ...pair, [axis]: moveIndex(pair[axis], from, to) }));
+
+/**
+ * Keeps pairs pointing at the same entries, by id, after a list is edited.
+ * Pairs on a removed entry follow `replacements` (removed id to kept id) when
+ * it names one, and otherwise show as missing.
+ */
+export const followEntries = (
+  pairs: ColorPair[],
+  axis: 'fg' | 'bg',
+  before: ColorEntry[],
+  after: ColorEntry[],
+  replacements?: Map<string, string>
+): ColorPair[] => {
+  const positions = new Map(after.map((entry, index) => [entry.id, index]));
+  return pairs.map(pair => {
+    const id = before[pair[axis]]?.id;
+    if (id === undefined) return pair;
+    const index = positions.get(replacements?.get(id) ?? id) ?? -1;
+    return index === pair[axis] ? pair : { ...pair, [axis]: index };
+  });
+};
@@ -0,0 +1,106 @@
+import chroma from 'chroma-js';
+import { ContrastAlgorithm } from './contrast';
+import { parseCssColor } from './cssColor';
+import { findPassingColor, fitToGamut } from './suggest';
+
+export type ScaleSpace = 'oklch' | 'oklab' | 'lch' | 'lab';
+
+export const SCALE_SPACES: { value: ScaleSpace; label: string }[] = [
+  { value: 'oklch', label: 'OKLCH' },
+  { value: 'oklab', label: 'OKLab' },
+  { value: 'lch', label: 'LCH' },
+  { value: 'lab', label: 'Lab' },
+];
+
+export const DEFAULT_SCALE_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900];
+
+export type ConstraintReference = 'white' | 'black';
+
+const REFERENCE_COLORS: Record<ConstraintReference, string> = {
+  white: '#ffffff',
+  black: '#000000',
+};
+
+// A step that has to reach a minimum contrast against white or black
+export interface ScaleConstraint {
+  step: number;
+  against: ConstraintReference;
+  minimum: number;
+}
+
+export interface ScaleOptions {
+  seed: string;
+  steps: number[];
+  space: ScaleSpace;
+  // OKLCH lightness (0-1) of the first and last step
+  lightest: number;
+  darkest: number;
+  constraints: ScaleConstraint[];
+  algorithm: ContrastAlgorithm;
+}
+
+export interface ScaleStep {
+  step: number;
+  color: string;
+  // Whether a constraint moved the step away from the interpolated color
+  adjusted: boolean;
+  // Set when a constraint could not be met at any lightness
+  unmet?: boolean;
+}
+
+// Steps typed as "50, 100, 200"; duplicates and non-numbers are dropped
+export const parseSteps = (value: string): number[] =>
+  [...new Set(
+    value.split(/[\s,]+/).filter(Boolean).map(Number).filter(step => Number.isFinite(step) && step >= 0)
+  )].sort((a, b) => a - b);
+
+/**
+ * Tonal scale around a seed color. The seed is placed at the step matching
+ * its own lightness, between a pale and a deep end that keep its hue, and the
+ * rest is interpolated in the chosen space and mapped back into sRGB. Steps
+ * with a constraint are then nudged in OKLCH lightness until they pass.
+ */
+export const generateScale = ({
+  seed,
+  steps,
+  space,
+  lightest,
+  darkest,
+  constraints,
+  algorithm,
+}: ScaleOptions): ScaleStep[] => {
+  const { color: seedColor } = parseCssColor(seed);
+  if (!seedColor || steps.length === 0) return [];
+
+  const [seedL, seedC, seedH] = seedColor.oklch();
+  const hue = isNaN(seedH) ? 0 : seedH;
+  const light = fitToGamut(lightest, seedC * 0.15, hue, 1);
+  const dark = fitToGamut(darkest, seedC * 0.6, hue, 1);
+  // Keep the seed strictly inside the domain so both ends stay distinct
+  const seedPosition = Math.min(0.95, Math.max(0.05, (lightest - seedL) / (lightest - darkest)));
+  const scale = chroma
+    .scale([light, seedColor.alpha(1), dark])
+    .mode(space)
+    .domain([0, seedPosition, 1]);
+
+  return steps.map((step, index) => {
+    const t = steps.length === 1 ? seedPosition : index / (steps.length - 1);
+    const [l, c, h] = scale(t).oklch();
+    const color = fitToGamut(l, c, isNaN(h) ? hue : h, 1).hex();
+
+    const constraint = constraints.find(candidate => candidate.step === step);
+    if (!constraint) return { step, color, adjusted: false };
+
+    const passing = findPassingColor({
+      foreground: color,
+      background: REFERENCE_COLORS[constraint.against],
+      adjust: 'foreground',
+      algorithm,
+      minimum: constraint.minimum,
+      surface: REFERENCE_COLORS.white,
+    });
+    return passing
+      ? { step, color: passing, adjusted: passing !== color }
+      : { step, color, adjusted: false, unmet: true };
+  });
+};
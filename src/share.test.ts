@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { SharedGrid, decodeGrid, encodeGrid } from './share';
+
+const grid: SharedGrid = {
+  fg: [{ color: '#000000', label: ' Ink' }, { color: 'rgb(0 0 0 / 50%)', label: ' Shadow' }],
+  bg: [{ color: '#FFFFFF', label: ' Paper' }],
+  algorithm: 'wcag2',
+  target: 'text',
+  surface: '#F8FAFC',
+};
+
+// Encodes a payload the way a hand-edited or crafted link would carry it
+const toHash = (payload: unknown): string =>
+  `#grid=${Buffer.from(JSON.stringify(payload)).toString('base64url')}`;
+
+describe('share links', () => {
+  it('round-trips a grid', () => {
+    expect(decodeGrid(encodeGrid(grid)).grid).toEqual({
+      ...grid,
+      fg: grid.fg.map(entry => ({ ...entry, target: undefined, modes: undefined })),
+      bg: grid.bg.map(entry => ({ ...entry, target: undefined, modes: undefined })),
+      custom: undefined,
+      themes: undefined,
+      linked: undefined,
+    });
+  });
+
+  it('keeps pairs and hidden rows and columns', () => {
+    const decoded = decodeGrid(encodeGrid({
+      ...grid,
+      fg: [grid.fg[0], { ...grid.fg[1], hidden: true }],
+      bg: [{ ...grid.bg[0], hidden: true }, { color: '#EEEEEE' }],
+      pairs: [
+        { name: 'Body', fg: 0, bg: 0, target: 'text' },
+        { name: 'Caption', fg: 1, bg: 1, target: 'large', level: 'AA Large' },
+      ],
+    })).grid;
+    expect(decoded?.fg.map(entry => entry.hidden)).toEqual([undefined, true]);
+    expect(decoded?.bg.map(entry => entry.hidden)).toEqual([true, undefined]);
+    expect(decoded?.pairs).toEqual([
+      { name: 'Body', fg: 0, bg: 0, target: 'text', level: undefined },
+      { name: 'Caption', fg: 1, bg: 1, target: 'large', level: 'AA Large' },
+    ]);
+  });
+
+  it('shares one set of hidden entries in a linked grid', () => {
+    const fg = [{ color: '#000000' }, { color: '#FFFFFF', hidden: true }];
+    const decoded = decodeGrid(encodeGrid({ ...grid, fg, bg: fg, linked: true })).grid;
+    expect(decoded?.bg).toBe(decoded?.fg);
+    expect(decoded?.bg.map(entry => entry.hidden)).toEqual([undefined, true]);
+  });
+
+  it('drops malformed pairs', () => {
+    const payload = {
+      v: 1, f: [['000000']], b: [['FFFFFF']], a: 'wcag2', t: 'text', s: '#FFFFFF',
+      p: [['Body', 0, 0, 'text'], ['Bad target', 0, 0, 'huge'], ['Bad index', 'x', 0, 'text'], 'nope'],
+      hf: 'nope',
+    };
+    const decoded = decodeGrid(toHash(payload)).grid;
+    expect(decoded?.pairs).toEqual([{ name: 'Body', fg: 0, bg: 0, target: 'text', level: undefined }]);
+    expect(decoded?.fg[0].hidden).toBeUndefined();
+  });
+
+  it('falls back to a white surface when the link has no valid one', () => {
+    const payload = { v: 1, f: [['000000']], b: [['FFFFFF']], a: 'wcag2', t: 'text' };
+    expect(decodeGrid(toHash({ ...payload, s: 'nope' })).grid?.surface).toBe('#FFFFFF');
+    expect(decodeGrid(toHash({ ...payload, s: 42 })).grid?.surface).toBe('#FFFFFF');
+    expect(decodeGrid(toHash({ ...payload, s: '#000' })).grid?.surface).toBe('#000');
+  });
+
+  it('reports damaged and incompatible links', () => {
+    expect(decodeGrid('#grid=%%%').error).toMatch(/damaged/);
+    expect(decodeGrid(toHash({ v: 99 })).error).toMatch(/incompatible/);
+    expect(decodeGrid(toHash({ v: 1, f: [] })).error).toMatch(/valid grid/);
+  });
+});
@@ -0,0 +1,166 @@
+import { ContrastAlgorithmId, ContrastLevel, isContrastAlgorithmId } from './contrast';
+import { isValidColor } from './cssColor';
+import { sanitizeModes, sanitizePairs, sanitizeThemes } from './storage';
+import { CustomLevels, TargetId, isTargetId } from './targets';
+import { ColorPair } from './types';
+
+const HASH_PREFIX = '#grid=';
+const SHARE_VERSION = 1;
+
+// Browsers and chat apps start truncating URLs well before the spec limits
+export const MAX_SHARE_LENGTH = 8000;
+
+interface SharedEntry {
+  color: string;
+  label?: string;
+  target?: TargetId;
+  hidden?: boolean;
+  modes?: Record<string, string>;
+}
+
+export interface SharedGrid {
+  fg: SharedEntry[];
+  bg: SharedEntry[];
+  algorithm: ContrastAlgorithmId;
+  target: TargetId;
+  custom?: CustomLevels;
+  surface: string;
+  themes?: string[];
+  linked?: boolean;
+  pairs?: ColorPair[];
+}
+
+export type ShareResult =
+  | { grid: SharedGrid; error?: undefined }
+  | { grid?: undefined; error: string };
+
+// Entries are stored as [color, label?, target?, modes?] tuples with hex colors minus their '#'
+type CompactEntry = [string, string?, (TargetId | '')?, Record<string, string>?];
+
+const compactEntry = (entry: SharedEntry): CompactEntry => {
+  const color = /^#[0-9A-Fa-f]{3,8}$/.test(entry.color) ? entry.color.slice(1) : entry.color;
+  if (entry.modes) return [color, entry.label ?? '', entry.target ?? '', entry.modes];
+  if (entry.target) return [color, entry.label ?? '', entry.target];
+  return entry.label ? [color, entry.label] : [color];
+};
+
+const expandEntry = (value: unknown): SharedEntry | null => {
+  if (!Array.isArray(value) || typeof value[0] !== 'string') return null;
+  const [color, label, target, modes] = value;
+  return {
+    color: /^[0-9A-Fa-f]{3,8}$/.test(color) ? `#${color}` : color,
+    label: typeof label === 'string' && label ? label : undefined,
+    target: isTargetId(target) ? target : undefined,
+    modes: sanitizeModes(modes),
+  };
+};
+
+// Pairs are stored as [name, fg, bg, target, level?] tuples
+type CompactPair = [string, number, number, TargetId, string?];
+
+const compactPair = (pair: ColorPair): CompactPair =>
+  pair.level === undefined
+    ? [pair.name, pair.fg, pair.bg, pair.target]
+    : [pair.name, pair.fg, pair.bg, pair.target, pair.level];
+
+const expandPairs = (value: unknown): ColorPair[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return sanitizePairs(value.map(pair =>
+    Array.isArray(pair) ? { name: pair[0], fg: pair[1], bg: pair[2], target: pair[3], level: pair[4] } : null
+  ));
+};
+
+// Hidden rows and columns travel as lists of indices
+const hiddenIndices = (entries: SharedEntry[]): number[] =>
+  entries.flatMap((entry, index) => (entry.hidden ? [index] : []));
+
+const withHidden = (entries: SharedEntry[], value: unknown): SharedEntry[] => {
+  const indices = Array.isArray(value) ? value : [];
+  return entries.map((entry, index) => (indices.includes(index) ? { ...entry, hidden: true } : entry));
+};
+
+const isLevelList = (value: unknown): value is ContrastLevel[] =>
+  Array.isArray(value) && value.every(level =>
+    typeof level?.label === 'string' &&
+    typeof level?.min === 'number' &&
+    typeof level?.description === 'string'
+  );
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): string => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+export const encodeGrid = (grid: SharedGrid): string => {
+  const payload = {
+    v: SHARE_VERSION,
+    f: grid.fg.map(compactEntry),
+    // Linked grids send their one list once
+    ...(grid.linked ? { l: 1 } : { b: grid.bg.map(compactEntry) }),
+    a: grid.algorithm,
+    t: grid.target,
+    s: grid.surface,
+    ...(grid.target === 'custom' ? { c: grid.custom } : {}),
+    ...(grid.themes ? { m: grid.themes } : {}),
+    ...(grid.pairs?.length ? { p: grid.pairs.map(compactPair) } : {}),
+    ...(hiddenIndices(grid.fg).length ? { hf: hiddenIndices(grid.fg) } : {}),
+    ...(!grid.linked && hiddenIndices(grid.bg).length ? { hb: hiddenIndices(grid.bg) } : {}),
+  };
+  return `${HASH_PREFIX}${toBase64Url(JSON.stringify(payload))}`;
+};
+
+export const hasSharedGrid = (hash: string): boolean => hash.startsWith(HASH_PREFIX);
+
+export const decodeGrid = (hash: string): ShareResult => {
+  if (hash.length > MAX_SHARE_LENGTH) {
+    return { error: 'This link is too long to load. Ask for a smaller grid or an exported file instead.' };
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(fromBase64Url(hash.slice(HASH_PREFIX.length)));
+  } catch {
+    return { error: 'This link is damaged and could not be read. Your saved grid was loaded instead.' };
+  }
+
+  if (payload?.v !== SHARE_VERSION) {
+    return { error: 'This link was created by an incompatible version of the editor.' };
+  }
+
+  const fgEntries = Array.isArray(payload.f) ? payload.f.map(expandEntry) : [];
+  const linked = payload.l === 1;
+  const bgEntries = linked ? fgEntries : Array.isArray(payload.b) ? payload.b.map(expandEntry) : [];
+  if (fgEntries.length === 0 || bgEntries.length === 0 || fgEntries.includes(null) || bgEntries.includes(null)) {
+    return { error: 'This link does not contain a valid grid. Your saved grid was loaded instead.' };
+  }
+  const fg = withHidden(fgEntries as SharedEntry[], payload.hf);
+  const bg = linked ? fg : withHidden(bgEntries as SharedEntry[], payload.hb);
+
+  const custom = payload.c as Partial<CustomLevels> | undefined;
+  return {
+    grid: {
+      fg,
+      bg,
+      algorithm: isContrastAlgorithmId(payload.a) ? payload.a : 'wcag2',
+      target: isTargetId(payload.t) ? payload.t : 'text',
+      custom: custom && isLevelList(custom.wcag2) && isLevelList(custom.apca)
+        ? { wcag2: custom.wcag2, apca: custom.apca }
+        : undefined,
+      // Translucent colors are composited over the surface, so it must be a color
+      surface: typeof payload.s === 'string' && isValidColor(payload.s) ? payload.s : '#FFFFFF',
+      themes: sanitizeThemes(payload.m),
+      linked: linked || undefined,
+      pairs: expandPairs(payload.p),
+    },
+  };
+};
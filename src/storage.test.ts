@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WORKSPACE_VERSION, createGrid, loadWorkspace } from './storage';
+
+const KEY = 'contrast-grid-workspace';
+const BACKUP_KEY = 'contrast-grid-workspace-backup';
+
+let items: Map<string, string>;
+
+beforeEach(() => {
+  items = new Map();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+  });
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('loadWorkspace', () => {
+  it('loads a saved workspace', () => {
+    const grid = createGrid('Brand');
+    items.set(KEY, JSON.stringify({ version: WORKSPACE_VERSION, activeId: grid.id, grids: [grid] }));
+    const result = loadWorkspace();
+    expect(result.workspace.grids.map(({ name }) => name)).toEqual(['Brand']);
+    expect(result.error).toBeUndefined();
+    expect(result.readOnly).toBeUndefined();
+  });
+
+  it('backs up unreadable data before falling back to defaults', () => {
+    items.set(KEY, '{ "version": 1, "grids": [');
+    const result = loadWorkspace();
+    expect(result.workspace.grids).toHaveLength(1);
+    expect(result.error).toContain(BACKUP_KEY);
+    expect(result.readOnly).toBeUndefined();
+    expect(items.get(BACKUP_KEY)).toBe('{ "version": 1, "grids": [');
+  });
+
+  it('does not let a newer version be saved over', () => {
+    const saved = JSON.stringify({ version: WORKSPACE_VERSION + 1, projects: [] });
+    items.set(KEY, saved);
+    const result = loadWorkspace();
+    expect(result.readOnly).toBe(true);
+    expect(result.error).toContain('newer version');
+    expect(items.get(BACKUP_KEY)).toBe(saved);
+  });
+
+  it('stays read-only when the backup cannot be written', () => {
+    items.set(KEY, 'null');
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      },
+    });
+    expect(loadWorkspace().readOnly).toBe(true);
+  });
+});
@@ -0,0 +1,210 @@
+import { ColorEntry, ColorPair } from './types';
+import { isTargetId } from './targets';
+
+const WORKSPACE_STORAGE_KEY = 'contrast-grid-workspace';
+// Saved data this build could not read, kept before it is replaced
+const WORKSPACE_BACKUP_KEY = 'contrast-grid-workspace-backup';
+// Single-grid payload stored as { fg, bg } before workspaces existed
+const LEGACY_STORAGE_KEY = 'contrast-grid-colors';
+
+export const WORKSPACE_VERSION = 1;
+
+export interface StoredGrid {
+  id: string;
+  name: string;
+  fg: ColorEntry[];
+  bg: ColorEntry[];
+  // Named pairings shown in the pair-list view
+  pairs?: ColorPair[];
+  // Theme names, when entries carry a value per theme
+  themes?: string[];
+  // Rows and columns share the foreground list
+  linked?: boolean;
+}
+
+export interface Workspace {
+  version: typeof WORKSPACE_VERSION;
+  activeId: string;
+  grids: StoredGrid[];
+}
+
+export const DEFAULT_FOREGROUND: ColorEntry[] = [
+  { color: '#FFFFFF', label: ' White' },
+  { color: '#000000', label: ' Black' },
+  { color: '#FF0000', label: ' Red' },
+];
+
+export const DEFAULT_BACKGROUND: ColorEntry[] = [
+  { color: '#000000', label: ' Black' },
+  { color: '#FFFFFF', label: ' White' },
+  { color: '#0000FF', label: ' Blue' },
+];
+
+export const createId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createGrid = (name: string, fg = DEFAULT_FOREGROUND, bg = DEFAULT_BACKGROUND): StoredGrid => ({
+  id: createId(),
+  name,
+  fg,
+  bg,
+});
+
+export const sanitizeModes = (value: unknown): Record<string, string> | undefined => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return undefined;
+  const modes = Object.entries(value).filter(([, color]) => typeof color === 'string');
+  return modes.length > 0 ? Object.fromEntries(modes) : undefined;
+};
+
+// Drops anything that is not a well-formed entry instead of failing the whole grid
+const sanitizeEntries = (value: unknown): ColorEntry[] | null => {
+  if (!Array.isArray(value)) return null;
+  return value
+    .filter(entry => typeof entry?.color === 'string')
+    .map(entry => ({
+      id: typeof entry.id === 'string' && entry.id ? entry.id : undefined,
+      color: entry.color,
+      label: typeof entry.label === 'string' ? entry.label : undefined,
+      target: isTargetId(entry.target) ? entry.target : undefined,
+      hidden: entry.hidden === true ? true : undefined,
+      modes: sanitizeModes(entry.modes),
+    }));
+};
+
+export const sanitizePairs = (value: unknown): ColorPair[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .filter(pair =>
+      typeof pair?.name === 'string' &&
+      Number.isInteger(pair.fg) &&
+      Number.isInteger(pair.bg) &&
+      isTargetId(pair.target)
+    )
+    .map(pair => ({
+      name: pair.name,
+      fg: pair.fg,
+      bg: pair.bg,
+      target: pair.target,
+      level: typeof pair.level === 'string' ? pair.level : undefined,
+    }));
+};
+
+// Theme names must be unique; a single theme is the same as none
+export const sanitizeThemes = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const themes = [...new Set(value.filter((theme): theme is string => typeof theme === 'string' && theme !== ''))];
+  return themes.length > 1 ? themes : undefined;
+};
+
+const sanitizeGrid = (value: unknown): StoredGrid | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const grid = value as Record<string, unknown>;
+  const fg = sanitizeEntries(grid.fg);
+  const bg = sanitizeEntries(grid.bg);
+  if (!fg || !bg) return null;
+  const linked = grid.linked === true;
+  return {
+    id: typeof grid.id === 'string' && grid.id ? grid.id : createId(),
+    name: typeof grid.name === 'string' && grid.name ? grid.name : 'Untitled grid',
+    fg,
+    bg: linked ? fg : bg,
+    pairs: sanitizePairs(grid.pairs),
+    themes: sanitizeThemes(grid.themes),
+    linked: linked || undefined,
+  };
+};
+
+const createWorkspace = (grids: StoredGrid[]): Workspace => ({
+  version: WORKSPACE_VERSION,
+  activeId: grids[0].id,
+  grids,
+});
+
+// Upgrades older payloads one version at a time; unknown versions are rejected
+const migrateWorkspace = (payload: Record<string, unknown>): Workspace | null => {
+  if (payload.version !== WORKSPACE_VERSION || !Array.isArray(payload.grids)) return null;
+
+  const grids = payload.grids
+    .map(sanitizeGrid)
+    .filter((grid): grid is StoredGrid => grid !== null);
+  if (grids.length === 0) return null;
+
+  const activeId = grids.some(grid => grid.id === payload.activeId)
+    ? payload.activeId as string
+    : grids[0].id;
+  return { version: WORKSPACE_VERSION, activeId, grids };
+};
+
+const loadLegacyGrid = (): StoredGrid | null => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return null;
+  try {
+    const grid = sanitizeGrid({ ...JSON.parse(saved), name: 'My grid' });
+    return grid && grid.fg.length > 0 && grid.bg.length > 0 ? grid : null;
+  } catch (e) {
+    console.error('Error loading legacy colors:', e);
+    return null;
+  }
+};
+
+export interface WorkspaceLoadResult {
+  workspace: Workspace;
+  // Why the saved workspace was not loaded, to show the user
+  error?: string;
+  // Saving would overwrite data this build cannot read
+  readOnly?: boolean;
+}
+
+const backUpWorkspace = (saved: string): boolean => {
+  try {
+    localStorage.setItem(WORKSPACE_BACKUP_KEY, saved);
+    return true;
+  } catch (e) {
+    console.error('Error backing up workspace:', e);
+    return false;
+  }
+};
+
+/**
+ * Loads the saved workspace. Data that cannot be read is copied to a backup
+ * key first; data from a newer version, or that could not be backed up, makes
+ * the result read-only so the first save does not destroy it.
+ */
+export const loadWorkspace = (): WorkspaceLoadResult => {
+  const fallback = () => createWorkspace([loadLegacyGrid() ?? createGrid('My grid')]);
+  const saved = localStorage.getItem(WORKSPACE_STORAGE_KEY);
+  if (!saved) return { workspace: fallback() };
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(saved);
+  } catch (e) {
+    console.error('Error loading workspace:', e);
+  }
+  if (typeof payload === 'object' && payload !== null) {
+    const workspace = migrateWorkspace(payload as Record<string, unknown>);
+    if (workspace) return { workspace };
+  }
+
+  console.error('Ignoring unreadable workspace data');
+  const version = (payload as { version?: unknown } | undefined)?.version;
+  const isNewer = typeof version === 'number' && version > WORKSPACE_VERSION;
+  const backedUp = backUpWorkspace(saved);
+  return {
+    workspace: fallback(),
+    error: isNewer
+      ? 'Your saved grids come from a newer version of this app. They are left as they are, and changes made here will not be saved.'
+      : backedUp
+        ? `Your saved grids could not be read. A copy was kept in local storage under "${WORKSPACE_BACKUP_KEY}".`
+        : 'Your saved grids could not be read or backed up. They are left as they are, and changes made here will not be saved.',
+    readOnly: isNewer || !backedUp || undefined,
+  };
+};
+
+export const saveWorkspace = (workspace: Workspace) => {
+  try {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, JSON.stringify(workspace));
+  } catch (e) {
+    console.error('Error saving workspace:', e);
+  }
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { CONTRAST_ALGORITHMS } from './contrast';
+import { measureContrast } from './core';
+import { simulateCvd } from './cvd';
+import { findPassingColor } from './suggest';
+
+const { wcag2 } = CONTRAST_ALGORITHMS;
+
+describe('findPassingColor', () => {
+  it('finds a foreground that reaches the minimum', () => {
+    const color = findPassingColor({
+      foreground: '#999999', background: '#ffffff', adjust: 'foreground', algorithm: wcag2, minimum: 4.5, surface: '#ffffff',
+    });
+    expect(measureContrast(color as string, '#ffffff', wcag2)).toBeGreaterThanOrEqual(4.5);
+  });
+
+  it('passes through the transform it is measured with', () => {
+    const protan = (color: string) => simulateCvd(color, 'protanopia', 1);
+    const options = {
+      foreground: '#ff0000', background: '#333333', adjust: 'foreground' as const, algorithm: wcag2, minimum: 4.5, surface: '#ffffff',
+    };
+    const plain = findPassingColor(options) as string;
+    const simulated = findPassingColor({ ...options, transform: protan }) as string;
+
+    expect(measureContrast(protan(plain), protan('#333333'), wcag2)).toBeLessThan(4.5);
+    expect(measureContrast(protan(simulated), protan('#333333'), wcag2)).toBeGreaterThanOrEqual(4.5);
+  });
+});
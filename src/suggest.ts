@@ -0,0 +1,85 @@
+import chroma from 'chroma-js';
+import { ContrastAlgorithm, getEffectiveColors } from './contrast';
+import { getBackgroundSamples, measureOverSamples } from './core';
+import { toChroma } from './cssColor';
+
+export type SuggestionTarget = 'foreground' | 'background';
+
+interface SuggestionOptions {
+  foreground: string;
+  background: string;
+  // Which side of the pair is allowed to change
+  adjust: SuggestionTarget;
+  algorithm: ContrastAlgorithm;
+  // Minimum contrast magnitude the suggestion has to reach
+  minimum: number;
+  surface: string;
+  // Applied to every color before it is measured, e.g. a color vision
+  // simulation, so the suggestion passes where the contrast is shown
+  transform?: (color: string) => string;
+}
+
+const LIGHTNESS_STEP = 0.005;
+
+// Largest in-gamut OKLCH color for the given lightness and hue, reducing chroma as needed
+export const fitToGamut = (l: number, c: number, h: number, alpha: number): chroma.Color => {
+  let color = chroma.oklch(l, c, h).alpha(alpha);
+  if (!color.clipped()) return color;
+
+  let low = 0;
+  let high = c;
+  for (let i = 0; i < 12; i++) {
+    const mid = (low + high) / 2;
+    color = chroma.oklch(l, mid, h).alpha(alpha);
+    if (color.clipped()) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return chroma.oklch(l, low, h).alpha(alpha);
+};
+
+/**
+ * Searches OKLCH lightness for the closest color that reaches the minimum
+ * contrast, keeping hue, chroma and alpha where the gamut allows. Returns
+ * null when no lightness satisfies the target. Gradient backgrounds can only
+ * be met by adjusting the text. The returned color is untransformed.
+ */
+export const findPassingColor = ({
+  foreground,
+  background,
+  adjust,
+  algorithm,
+  minimum,
+  surface,
+  transform = color => color,
+}: SuggestionOptions): string | null => {
+  const source = toChroma(adjust === 'foreground' ? foreground : background);
+  const [l, c, h] = source.oklch();
+  const hue = isNaN(h) ? 0 : h;
+  const alpha = source.alpha();
+
+  const candidates: number[] = [];
+  for (let step = 0; step <= 1 / LIGHTNESS_STEP; step++) {
+    candidates.push(step * LIGHTNESS_STEP);
+  }
+  candidates.sort((a, b) => Math.abs(a - l) - Math.abs(b - l));
+  // The background is sampled once; on a gradient the text has to pass at every sample
+  const samples = adjust === 'foreground' ? getBackgroundSamples(transform(background), transform(surface)) : null;
+  if (adjust === 'foreground' && !samples) return null;
+
+  for (const lightness of candidates) {
+    const candidate = fitToGamut(lightness, c, hue, alpha).hex();
+    let value: number;
+    if (samples) {
+      value = measureOverSamples(transform(candidate), samples, algorithm).value;
+    } else {
+      const effective = getEffectiveColors(transform(foreground), transform(candidate), transform(surface));
+      value = algorithm.compute(effective.foreground, effective.background);
+    }
+    if (Math.abs(value) >= minimum) return candidate;
+  }
+
+  return null;
+};
@@ -0,0 +1,92 @@
+import { ContrastAlgorithmId, ContrastLevel } from './contrast';
+
+export type TargetId = 'text' | 'large' | 'non-text' | 'custom';
+
+export interface TargetProfile {
+  id: TargetId;
+  name: string;
+  // Passing levels per algorithm, strongest first
+  levels: Record<ContrastAlgorithmId, ContrastLevel[]>;
+}
+
+export type CustomLevels = Record<ContrastAlgorithmId, ContrastLevel[]>;
+
+export const DEFAULT_CUSTOM_LEVELS: CustomLevels = {
+  wcag2: [{ label: 'Custom', min: 4.5, description: 'Contrast ratio ≥ 4.5' }],
+  apca: [{ label: 'Custom', min: 60, description: '|Lc| ≥ 60' }],
+};
+
+const PRESET_TARGETS: Record<Exclude<TargetId, 'custom'>, TargetProfile> = {
+  text: {
+    id: 'text',
+    name: 'Normal text',
+    levels: {
+      wcag2: [
+        { label: 'AAA', min: 7, description: 'Contrast ratio ≥ 7.0' },
+        { label: 'AA', min: 4.5, description: 'Contrast ratio ≥ 4.5' },
+      ],
+      apca: [
+        { label: 'Lc 90', min: 90, description: 'Preferred for body text' },
+        { label: 'Lc 75', min: 75, description: 'Minimum for body text' },
+        { label: 'Lc 60', min: 60, description: 'Minimum for other content text', isDefault: true },
+        { label: 'Lc 45', min: 45, description: 'Large or bold text, headlines' },
+        { label: 'Lc 30', min: 30, description: 'Spot text, placeholders, icons' },
+      ],
+    },
+  },
+  large: {
+    id: 'large',
+    name: 'Large text',
+    levels: {
+      wcag2: [
+        { label: 'AAA Large', min: 4.5, description: 'Large text ratio ≥ 4.5' },
+        { label: 'AA Large', min: 3, description: 'Large text ratio ≥ 3.0' },
+      ],
+      apca: [
+        { label: 'Lc 60', min: 60, description: 'Large text, 24px or 16px bold' },
+        { label: 'Lc 45', min: 45, description: 'Headlines, 36px or 24px bold' },
+      ],
+    },
+  },
+  'non-text': {
+    id: 'non-text',
+    name: 'Non-text UI',
+    levels: {
+      wcag2: [
+        { label: 'UI 3:1', min: 3, description: 'Non-text contrast ≥ 3.0 (1.4.11)' },
+      ],
+      apca: [
+        { label: 'Lc 30', min: 30, description: 'Icons and UI components', isDefault: true },
+        { label: 'Lc 15', min: 15, description: 'Minimum for non-text elements' },
+      ],
+    },
+  },
+};
+
+export const TARGET_IDS: TargetId[] = ['text', 'large', 'non-text', 'custom'];
+
+export const isTargetId = (value: unknown): value is TargetId =>
+  typeof value === 'string' && (TARGET_IDS as string[]).includes(value);
+
+// Keeps custom levels sorted strongest first so level lookup stays correct
+export const sortLevels = (levels: ContrastLevel[]): ContrastLevel[] =>
+  [...levels].sort((a, b) => b.min - a.min);
+
+export const getTargetProfile = (id: TargetId, custom: CustomLevels): TargetProfile =>
+  id === 'custom'
+    ? {
+      id: 'custom',
+      name: 'Custom',
+      levels: { wcag2: sortLevels(custom.wcag2), apca: sortLevels(custom.apca) },
+    }
+    : PRESET_TARGETS[id];
+
+/**
+ * Target for a single cell. A column (foreground) override wins over a row
+ * (background) override, which wins over the global profile.
+ */
+export const resolveTargetId = (
+  globalTarget: TargetId,
+  rowTarget?: TargetId,
+  columnTarget?: TargetId
+): TargetId => columnTarget ?? rowTarget ?? globalTarget;
@@ -0,0 +1,133 @@
+import { ContrastMatrix, MatrixCell } from './export';
+import { GridState } from './useGridHistory';
+import { ColorEntry } from './types';
+
+/*
+ * A themed grid lists its theme names, and each entry stores the first theme's
+ * value in `color` and the others in `modes`. A theme without its own value,
+ * or with the same one, shares the first theme's, so common colors are
+ * entered once.
+ *
+ * While editing, entries are resolved for the active theme: `color` holds the
+ * active value and `modes` also holds the first theme's, so the usual list
+ * edits (spreading an entry, reordering, replacing its color) keep working
+ * and storeEntries can fold the result back.
+ */
+
+export const DEFAULT_THEMES = ['Light', 'Dark'];
+
+export const hasThemes = (themes: string[] | undefined): themes is string[] =>
+  themes !== undefined && themes.length > 1;
+
+export const getThemeColor = (entry: ColorEntry, themes: string[], theme: string): string =>
+  theme === themes[0] ? entry.color : entry.modes?.[theme] ?? entry.color;
+
+export const resolveEntries = (entries: ColorEntry[], themes: string[] | undefined, active: string): ColorEntry[] => {
+  if (!hasThemes(themes)) return entries;
+  return entries.map(entry => ({
+    ...entry,
+    color: getThemeColor(entry, themes, active),
+    modes: { ...entry.modes, [themes[0]]: entry.color },
+  }));
+};
+
+export const storeEntries = (entries: ColorEntry[], themes: string[] | undefined, active: string): ColorEntry[] => {
+  if (!hasThemes(themes)) return entries;
+  const [base, ...others] = themes;
+  return entries.map(entry => {
+    // Entries added while a theme is active have no other values yet
+    const values = { ...entry.modes, [active]: entry.color };
+    const color = values[base] ?? entry.color;
+    const modes = Object.fromEntries(
+      others.filter(theme => values[theme] !== undefined && values[theme] !== color).map(theme => [theme, values[theme]])
+    );
+    return { ...entry, color, modes: Object.keys(modes).length > 0 ? modes : undefined };
+  });
+};
+
+const mapEntries = (grid: GridState, map: (entry: ColorEntry) => ColorEntry): GridState => ({
+  ...grid,
+  fg: grid.fg.map(map),
+  bg: grid.bg.map(map),
+});
+
+// Stored entries with their value for one theme dropped
+const withoutMode = (entry: ColorEntry, theme: string): ColorEntry => {
+  if (!entry.modes || !(theme in entry.modes)) return entry;
+  const { [theme]: _removed, ...rest } = entry.modes;
+  return { ...entry, modes: Object.keys(rest).length > 0 ? rest : undefined };
+};
+
+export const addTheme = (grid: GridState, name: string): GridState => ({
+  ...grid,
+  themes: hasThemes(grid.themes) ? [...grid.themes, name] : [...DEFAULT_THEMES.slice(0, 1), name],
+});
+
+export const renameTheme = (grid: GridState, from: string, to: string): GridState => {
+  if (!grid.themes || from === to || grid.themes.includes(to)) return grid;
+  return {
+    ...mapEntries(grid, entry => {
+      if (!entry.modes || !(from in entry.modes)) return entry;
+      const { [from]: value, ...rest } = entry.modes;
+      return { ...entry, modes: { ...rest, [to]: value } };
+    }),
+    themes: grid.themes.map(theme => (theme === from ? to : theme)),
+  };
+};
+
+/**
+ * Removing the first theme promotes the next one to hold `color`. Down to a
+ * single theme the grid is plain again.
+ */
+export const removeTheme = (grid: GridState, name: string): GridState => {
+  const current = grid.themes;
+  if (!hasThemes(current) || !current.includes(name)) return grid;
+  const themes = current.filter(theme => theme !== name);
+  const promoted = current[0] === name ? themes[0] : undefined;
+
+  const next = mapEntries(grid, entry => {
+    const color = promoted ? getThemeColor(entry, current, promoted) : entry.color;
+    const stripped = withoutMode(promoted ? withoutMode(entry, promoted) : entry, name);
+    return { ...stripped, color, modes: themes.length > 1 ? stripped.modes : undefined };
+  });
+  return { ...next, themes: themes.length > 1 ? themes : undefined };
+};
+
+// A new theme name that is not taken yet, e.g. "Theme 3"
+export const nextThemeName = (themes: string[] | undefined): string => {
+  const taken = new Set(themes ?? DEFAULT_THEMES.slice(0, 1));
+  if (!taken.has(DEFAULT_THEMES[1])) return DEFAULT_THEMES[1];
+  let index = taken.size + 1;
+  while (taken.has(`Theme ${index}`)) index++;
+  return `Theme ${index}`;
+};
+
+export interface ThemeComparison {
+  row: number;
+  column: number;
+  // One cell per theme, in theme order
+  cells: MatrixCell[];
+  // Passes in at least one theme and fails in another
+  differs: boolean;
+}
+
+/**
+ * Lines up the same cell across per-theme matrices built from identical rows
+ * and columns. Invalid cells neither pass nor fail.
+ */
+export const compareThemes = (matrices: ContrastMatrix[]): ThemeComparison[] => {
+  const [first] = matrices;
+  if (!first) return [];
+  return first.cells.flatMap((row, rowIndex) =>
+    row.map((_, columnIndex) => {
+      const cells = matrices.map(matrix => matrix.cells[rowIndex][columnIndex]);
+      const valid = cells.filter(cell => cell.value !== null);
+      return {
+        row: rowIndex,
+        column: columnIndex,
+        cells,
+        differs: valid.some(cell => cell.passes) && valid.some(cell => !cell.passes),
+      };
+    })
+  );
+};
@@ -0,0 +1,220 @@
+import { isValidColor, toChroma } from './cssColor';
+import { ContrastMatrix, cleanLabel } from './export';
+import { isGradient, isValidBackground, parseGradient } from './gradient';
+
+/*
+ * Design-file exports of the grid's entries, built offline from one contrast
+ * matrix per theme (or a single one for an unthemed grid). Every matrix lists
+ * the same entries in the same order, with that theme's colors. Each token is
+ * annotated with the pairs it passes in, so the verified combinations travel
+ * with the palette.
+ */
+
+export type TokenExportFormat = 'dtcg' | 'figma';
+
+export const TOKEN_EXPORT_FORMATS: Record<TokenExportFormat, { label: string; extension: string; mimeType: string }> = {
+  dtcg: { label: 'Design Tokens', extension: 'tokens.json', mimeType: 'application/json' },
+  figma: { label: 'Figma variables', extension: 'figma-variables.json', mimeType: 'application/json' },
+};
+
+export interface ModeMatrix {
+  // Theme name, or a single default mode
+  mode: string;
+  matrix: ContrastMatrix;
+}
+
+type Axis = 'foreground' | 'background';
+
+interface PassingPair {
+  // The token on the other axis
+  other: ExportToken;
+  mode: string;
+  value: number;
+  level: string;
+  target: string;
+}
+
+interface ExportToken {
+  axis: Axis;
+  name: string;
+  // One CSS value per mode, in mode order
+  values: string[];
+  pairs: PassingPair[];
+}
+
+// Extension namespace for annotations, following the DTCG reverse-domain advice
+const EXTENSION_KEY = 'org.contrast-grid';
+
+export const DEFAULT_MODE = 'Default';
+
+// Dots and braces would read as token references, and a leading "$" as a DTCG property
+const sanitizeName = (name: string): string => name.replace(/[.{}]/g, '-').replace(/^\$+/, '').trim();
+
+const uniqueNames = (names: string[]): string[] => {
+  const counts = new Map<string, number>();
+  return names.map(name => {
+    const count = (counts.get(name) ?? 0) + 1;
+    counts.set(name, count);
+    return count === 1 ? name : `${name} ${count}`;
+  });
+};
+
+// Tokens for the entries that read as valid in every mode; gradients only as backgrounds
+const collectTokens = (modes: ModeMatrix[]): { foreground: ExportToken[]; background: ExportToken[] } => {
+  const [first] = modes;
+  const build = (axis: Axis, entries: ContrastMatrix['columns'], isValid: (value: string) => boolean) => {
+    const names = uniqueNames(entries.map((entry, index) => sanitizeName(cleanLabel(entry)) || `Color ${index + 1}`));
+    return entries.map((_, index): ExportToken | null => {
+      const values = modes.map(({ matrix }) => (axis === 'foreground' ? matrix.columns : matrix.rows)[index].color);
+      return values.every(isValid) ? { axis, name: names[index], values, pairs: [] } : null;
+    });
+  };
+  const columns = build('foreground', first.matrix.columns, isValidColor);
+  const rows = build('background', first.matrix.rows, isValidBackground);
+
+  modes.forEach(({ mode, matrix }) => {
+    matrix.cells.forEach((cells, row) => cells.forEach((cell, column) => {
+      const foreground = columns[column];
+      const background = rows[row];
+      if (!foreground || !background || !cell.passes || cell.value === null || !cell.level) return;
+      const pair = { mode, value: Number(cell.value.toFixed(2)), level: cell.level, target: cell.target };
+      foreground.pairs.push({ ...pair, other: background });
+      background.pairs.push({ ...pair, other: foreground });
+    }));
+  });
+
+  const valid = (token: ExportToken | null): token is ExportToken => token !== null;
+  return { foreground: columns.filter(valid), background: rows.filter(valid) };
+};
+
+/* ---------- Design tokens ---------- */
+
+const reference = (token: ExportToken): string => `{${token.axis}.${token.name}}`;
+
+const toTokenValue = (value: string): { $type: string; $value: unknown } => {
+  const gradient = isGradient(value) ? parseGradient(value).gradient : undefined;
+  if (gradient) {
+    return {
+      $type: 'gradient',
+      $value: gradient.stops.map(stop => ({ color: stop.color.hex().toUpperCase(), position: Number(stop.position.toFixed(4)) })),
+    };
+  }
+  return { $type: 'color', $value: toChroma(value).hex().toUpperCase() };
+};
+
+const toDesignTokens = (modes: ModeMatrix[], tokens: ReturnType<typeof collectTokens>): string => {
+  const { algorithm, surface } = modes[0].matrix;
+  const isThemed = modes.length > 1;
+
+  const group = (list: ExportToken[]) => Object.fromEntries(list.map(token => {
+    const [base, ...others] = token.values;
+    return [token.name, {
+      ...toTokenValue(base),
+      $extensions: {
+        [EXTENSION_KEY]: {
+          ...(isThemed
+            ? { modes: Object.fromEntries(others.map((value, index) => [modes[index + 1].mode, toTokenValue(value).$value])) }
+            : {}),
+          contrast: token.pairs.map(pair => ({
+            [pair.other.axis]: reference(pair.other),
+            value: pair.value,
+            level: pair.level,
+            target: pair.target,
+            ...(isThemed ? { mode: pair.mode } : {}),
+          })),
+        },
+      },
+    }];
+  }));
+
+  return JSON.stringify({
+    $description: `Colors from the contrast grid; contrast was checked with ${algorithm.name} over ${surface}`,
+    $extensions: {
+      [EXTENSION_KEY]: {
+        algorithm: algorithm.id,
+        surface,
+        ...(isThemed ? { modes: modes.map(({ mode }) => mode) } : {}),
+      },
+    },
+    foreground: group(tokens.foreground),
+    background: group(tokens.background),
+  }, null, 2);
+};
+
+/* ---------- Figma variables ---------- */
+
+// Where Figma offers each variable in its pickers
+const FIGMA_SCOPES: Record<Axis, string[]> = {
+  foreground: ['TEXT_FILL', 'SHAPE_FILL', 'STROKE_COLOR'],
+  background: ['FRAME_FILL', 'SHAPE_FILL'],
+};
+
+const AXIS_NAMES: Record<Axis, string> = { foreground: 'Foreground', background: 'Background' };
+
+const toFigmaColor = (value: string) => {
+  const [r, g, b, a] = toChroma(value).gl();
+  const round = (channel: number) => Number(channel.toFixed(4));
+  return { r: round(r), g: round(g), b: round(b), a: round(a) };
+};
+
+const describePairs = (token: ExportToken, algorithm: ContrastMatrix['algorithm'], isThemed: boolean): string =>
+  token.pairs.length === 0
+    ? 'No passing pairs in the contrast grid'
+    : `Passes ${token.pairs.map(pair =>
+      `${pair.level} ${token.axis === 'foreground' ? 'on' : 'with'} ${pair.other.name} (${algorithm.format(pair.value)}${isThemed ? `, ${pair.mode}` : ''})`
+    ).join('; ')}`;
+
+/**
+ * The body of Figma's variables REST endpoint, with temporary ids: one
+ * collection named `collection`, a mode per theme, and a color variable per
+ * entry, grouped into Foreground/ and Background/.
+ */
+const toFigmaVariables = (
+  modes: ModeMatrix[],
+  tokens: ReturnType<typeof collectTokens>,
+  collection: string
+): string => {
+  const { algorithm } = modes[0].matrix;
+  const isThemed = modes.length > 1;
+  const collectionId = 'collection';
+  const modeIds = modes.map((_, index) => `mode-${index + 1}`);
+  // Figma variables hold a single color, so gradients are left out
+  const variables = [...tokens.foreground, ...tokens.background]
+    .filter(token => !token.values.some(isGradient))
+    .map((token, index) => ({ token, id: `variable-${index + 1}` }));
+
+  return JSON.stringify({
+    variableCollections: [
+      { action: 'CREATE', id: collectionId, name: collection, initialModeId: modeIds[0] },
+    ],
+    // A new collection starts with one mode, which is renamed rather than created
+    variableModes: modes.map(({ mode }, index) => ({
+      action: index === 0 ? 'UPDATE' : 'CREATE',
+      id: modeIds[index],
+      name: mode,
+      variableCollectionId: collectionId,
+    })),
+    variables: variables.map(({ token, id }) => ({
+      action: 'CREATE',
+      id,
+      name: `${AXIS_NAMES[token.axis]}/${token.name}`,
+      variableCollectionId: collectionId,
+      resolvedType: 'COLOR',
+      description: describePairs(token, algorithm, isThemed),
+      scopes: FIGMA_SCOPES[token.axis],
+    })),
+    variableModeValues: variables.flatMap(({ token, id }) =>
+      token.values.map((value, index) => ({ variableId: id, modeId: modeIds[index], value: toFigmaColor(value) }))
+    ),
+  }, null, 2);
+};
+
+export const exportTokens = (modes: ModeMatrix[], format: TokenExportFormat, collection: string): string => {
+  const tokens = collectTokens(modes);
+  switch (format) {
+    case 'dtcg':
+      return toDesignTokens(modes, tokens);
+    case 'figma':
+      return toFigmaVariables(modes, tokens, collection);
+  }
+};
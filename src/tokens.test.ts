@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseTailwindConfig } from './tokens';
+
+describe('parseTailwindConfig', () => {
+  it('reads theme colors and extended colors', () => {
+    const result = parseTailwindConfig(`
+      // tailwind.config.js
+      module.exports = {
+        content: ['./src/**/*.tsx'],
+        theme: {
+          colors: { ink: '#111111', transparent: 'transparent' },
+          extend: {
+            colors: {
+              brand: { DEFAULT: "#0055ff", 'light': '#88aaff', dark: colors.blue[900] },
+              ...extraColors,
+            },
+          },
+        },
+        plugins: [require('@tailwindcss/forms')],
+      };
+    `);
+    expect(result.tokens).toEqual([
+      { name: 'ink', color: '#111111' },
+      { name: 'transparent', color: 'transparent' },
+      { name: 'brand', color: '#0055ff' },
+      { name: 'brand-light', color: '#88aaff' },
+    ]);
+    expect(result.warnings).toEqual(['"brand-dark" is not a literal value']);
+  });
+
+  // These used to leave the reader stuck on the stray bracket
+  it('gets past stray closing brackets', () => {
+    expect(parseTailwindConfig('export default { theme: { colors: { primary: "#fff" ) } } }').tokens)
+      .toEqual([{ name: 'primary', color: '#fff' }]);
+    expect(parseTailwindConfig('{ primary: "#fff" )').tokens).toEqual([]);
+    expect(parseTailwindConfig('export default { a: ]').tokens).toEqual([]);
+    expect(parseTailwindConfig('{ foo) }').tokens).toEqual([]);
+    expect(parseTailwindConfig('{ theme: { colors: { a: [1, 2]], b: "#000" } } }').tokens)
+      .toEqual([{ name: 'b', color: '#000' }]);
+  });
+});
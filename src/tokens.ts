@@ -0,0 +1,326 @@
+import chroma from 'chroma-js';
+import { isValidColor } from './cssColor';
+
+export type TokenFormat = 'tailwind' | 'css' | 'dtcg';
+
+export interface ImportedToken {
+  name: string;
+  color: string;
+}
+
+export interface TokenParseResult {
+  format: TokenFormat;
+  tokens: ImportedToken[];
+  // Tokens that were found but could not be resolved to a color
+  warnings: string[];
+}
+
+// Resolves alias chains like {a.b} -> {c.d} -> #fff, guarding against cycles
+const resolveAliases = (
+  raw: Map<string, string>,
+  getReference: (value: string) => string | null,
+  warnings: string[]
+): ImportedToken[] => {
+  const tokens: ImportedToken[] = [];
+
+  raw.forEach((initial, name) => {
+    const seen = new Set([name]);
+    let value: string | undefined = initial;
+    let reference = getReference(initial);
+
+    while (value !== undefined && reference !== null) {
+      if (seen.has(reference)) {
+        warnings.push(`Circular reference in "${name}"`);
+        return;
+      }
+      seen.add(reference);
+      value = raw.get(reference);
+      reference = value === undefined ? null : getReference(value);
+    }
+
+    if (value === undefined) {
+      warnings.push(`Unresolved reference in "${name}"`);
+    } else if (isValidColor(value)) {
+      tokens.push({ name, color: value });
+    } else {
+      warnings.push(`"${name}" is not a color (${value})`);
+    }
+  });
+
+  return tokens;
+};
+
+/* ---------- W3C Design Tokens (DTCG) ---------- */
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+const isObject = (value: JsonValue | undefined): value is { [key: string]: JsonValue } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// DTCG colors are either CSS strings or { colorSpace, components, alpha, hex } objects
+const readDtcgColor = (value: JsonValue): string | null => {
+  if (typeof value === 'string') return value;
+  if (!isObject(value)) return null;
+  if (typeof value.hex === 'string') return value.hex;
+  if (value.colorSpace === 'srgb' && Array.isArray(value.components)) {
+    const [r, g, b] = value.components.map(Number);
+    const alpha = typeof value.alpha === 'number' ? value.alpha : 1;
+    return chroma.gl(r, g, b, alpha).hex();
+  }
+  return null;
+};
+
+export const parseDesignTokens = (source: string): TokenParseResult => {
+  const warnings: string[] = [];
+  const raw = new Map<string, string>();
+  const root = JSON.parse(source) as JsonValue;
+
+  const walk = (node: JsonValue, path: string[], inheritedType?: string) => {
+    if (!isObject(node)) return;
+    const groupType = typeof node.$type === 'string' ? node.$type : inheritedType;
+    const value = node.$value ?? node.value;
+
+    if (value !== undefined) {
+      const type = groupType ?? (typeof node.type === 'string' ? node.type : undefined);
+      if (type && type !== 'color') return;
+      const color = readDtcgColor(value);
+      if (color !== null) raw.set(path.join('.'), color);
+      return;
+    }
+
+    Object.entries(node).forEach(([key, child]) => {
+      if (key.startsWith('$')) return;
+      walk(child, [...path, key], groupType);
+    });
+  };
+
+  walk(root, []);
+
+  const tokens = resolveAliases(
+    raw,
+    (value) => {
+      const match = value.trim().match(/^\{([^}]+)\}$/);
+      return match ? match[1] : null;
+    },
+    warnings
+  );
+  return { format: 'dtcg', tokens, warnings };
+};
+
+/* ---------- CSS custom properties ---------- */
+
+export const parseCssVariables = (source: string): TokenParseResult => {
+  const warnings: string[] = [];
+  const raw = new Map<string, string>();
+  const withoutComments = source.replace(/\/\*[\s\S]*?\*\//g, '');
+  const declaration = /--([\w-]+)\s*:\s*([^;}]+)[;}]/g;
+  const reference = /^var\(\s*--([\w-]+)\s*(?:,\s*(.+))?\)$/;
+
+  let match: RegExpExecArray | null;
+  while ((match = declaration.exec(withoutComments)) !== null) {
+    // Later declarations win, as they would in the cascade for the same selector
+    raw.set(`--${match[1]}`, match[2].trim());
+  }
+
+  // Fall back to the var() default when the referenced property is missing
+  raw.forEach((value, name) => {
+    const fallback = value.match(reference);
+    if (fallback && !raw.has(`--${fallback[1]}`) && fallback[2]) {
+      raw.set(name, fallback[2].trim());
+    }
+  });
+
+  const tokens = resolveAliases(
+    raw,
+    (value) => {
+      const match = value.match(reference);
+      return match ? `--${match[1]}` : null;
+    },
+    warnings
+  );
+
+  return { format: 'css', tokens, warnings };
+};
+
+/* ---------- Tailwind config ---------- */
+
+type LiteralValue = string | LiteralObject | null;
+interface LiteralObject {
+  [key: string]: LiteralValue;
+}
+
+/**
+ * Tolerant reader for the object literal in a Tailwind config. It only
+ * understands keys, string values and nested objects; anything else (function
+ * calls, spreads, identifiers) is skipped and read as null.
+ */
+const parseObjectLiteral = (source: string, start: number): LiteralObject => {
+  let index = start;
+
+  const skipWhitespace = () => {
+    while (index < source.length) {
+      if (/\s/.test(source[index])) {
+        index++;
+      } else if (source.startsWith('//', index)) {
+        index = source.indexOf('\n', index);
+        if (index === -1) index = source.length;
+      } else if (source.startsWith('/*', index)) {
+        index = source.indexOf('*/', index) + 2;
+        if (index === 1) index = source.length;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readString = (): string => {
+    const quote = source[index++];
+    let value = '';
+    while (index < source.length && source[index] !== quote) {
+      if (source[index] === '\\') index++;
+      value += source[index++];
+    }
+    index++;
+    return value;
+  };
+
+  // Skips an unsupported expression up to the next top-level comma or closing
+  // brace. Stray closing parentheses and brackets are skipped as well, since
+  // stopping on them would leave the reader in place.
+  const skipExpression = () => {
+    let depth = 0;
+    while (index < source.length) {
+      const char = source[index];
+      if (char === '"' || char === "'" || char === '`') {
+        readString();
+        continue;
+      }
+      if ('([{'.includes(char)) depth++;
+      if (')]}'.includes(char)) {
+        if (depth === 0 && char === '}') return;
+        depth = Math.max(0, depth - 1);
+      }
+      if (char === ',' && depth === 0) return;
+      index++;
+    }
+  };
+
+  const readObject = (): LiteralObject => {
+    const result: LiteralObject = {};
+    index++; // opening brace
+    while (index < source.length) {
+      skipWhitespace();
+      if (source[index] === '}') {
+        index++;
+        return result;
+      }
+      if (source[index] === ',') {
+        index++;
+        continue;
+      }
+      if (source.startsWith('...', index)) {
+        skipExpression();
+        continue;
+      }
+
+      let key: string;
+      if (source[index] === '"' || source[index] === "'") {
+        key = readString();
+      } else {
+        const keyMatch = source.slice(index).match(/^[\w$-]+/);
+        if (!keyMatch) {
+          skipExpression();
+          continue;
+        }
+        key = keyMatch[0];
+        index += key.length;
+      }
+
+      skipWhitespace();
+      if (source[index] !== ':') {
+        // Shorthand property or method, nothing we can read
+        skipExpression();
+        continue;
+      }
+      index++;
+      skipWhitespace();
+
+      const char = source[index];
+      if (char === '{') {
+        result[key] = readObject();
+      } else if (char === '"' || char === "'" || char === '`') {
+        result[key] = readString();
+      } else {
+        skipExpression();
+        result[key] = null;
+      }
+    }
+    return result;
+  };
+
+  index = start;
+  return readObject();
+};
+
+const flattenTailwindColors = (
+  colors: LiteralObject,
+  prefix: string[],
+  raw: Map<string, string>,
+  warnings: string[]
+) => {
+  Object.entries(colors).forEach(([key, value]) => {
+    const path = key === 'DEFAULT' ? prefix : [...prefix, key];
+    if (typeof value === 'string') {
+      raw.set(path.join('-'), value);
+    } else if (value) {
+      flattenTailwindColors(value, path, raw, warnings);
+    } else {
+      warnings.push(`"${path.join('-')}" is not a literal value`);
+    }
+  });
+};
+
+export const parseTailwindConfig = (source: string): TokenParseResult => {
+  const warnings: string[] = [];
+  const raw = new Map<string, string>();
+  const configStart = source.search(/(export\s+default|module\.exports\s*=)[^{]*\{/);
+  const braceIndex = source.indexOf('{', configStart === -1 ? 0 : configStart);
+  if (braceIndex === -1) {
+    return { format: 'tailwind', tokens: [], warnings: ['No config object found'] };
+  }
+
+  const config = parseObjectLiteral(source, braceIndex);
+  const theme = config.theme;
+  if (theme && typeof theme === 'object') {
+    const sections = [theme.colors, theme.extend && typeof theme.extend === 'object' ? theme.extend.colors : null];
+    sections.forEach(section => {
+      if (section && typeof section === 'object') flattenTailwindColors(section, [], raw, warnings);
+    });
+  }
+
+  if (raw.size === 0) warnings.push('No theme.colors or theme.extend.colors found');
+
+  const tokens = resolveAliases(raw, () => null, warnings);
+  return { format: 'tailwind', tokens, warnings };
+};
+
+export const detectTokenFormat = (source: string, fileName?: string): TokenFormat => {
+  if (fileName?.endsWith('.json')) return 'dtcg';
+  if (fileName?.endsWith('.css')) return 'css';
+  if (fileName && /\.(c|m)?(j|t)s$/.test(fileName)) return 'tailwind';
+
+  const trimmed = source.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'dtcg';
+  if (/--[\w-]+\s*:/.test(source) && !/module\.exports|export\s+default/.test(source)) return 'css';
+  return 'tailwind';
+};
+
+export const parseTokens = (source: string, format: TokenFormat): TokenParseResult => {
+  try {
+    if (format === 'dtcg') return parseDesignTokens(source);
+    if (format === 'css') return parseCssVariables(source);
+    return parseTailwindConfig(source);
+  } catch (e) {
+    return { format, tokens: [], warnings: [`Could not parse input: ${(e as Error).message}`] };
+  }
+};
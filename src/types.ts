@@ -0,0 +1,24 @@
+import { TargetId } from './targets';
+
+export interface ColorEntry {
+  // Stable within its grid, so edits, reordering and selection can follow the entry
+  id?: string;
+  color: string;
+  label?: string;
+  // Overrides the global target profile for this row or column
+  target?: TargetId;
+  // Left out of the grid view without being deleted
+  hidden?: boolean;
+  // Values for themes other than the grid's first, keyed by theme name
+  modes?: Record<string, string>;
+}
+
+// A named pairing of one foreground and one background entry, by list index
+export interface ColorPair {
+  name: string;
+  fg: number;
+  bg: number;
+  target: TargetId;
+  // Label of the level the pair must reach; unset means the target's default, see getRequiredLevel
+  level?: string;
+}
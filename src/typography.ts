@@ -0,0 +1,78 @@
+import { ContrastAlgorithmId, getApcaFontSize, getContrastLevel } from './contrast';
+import { DEFAULT_CUSTOM_LEVELS, getTargetProfile } from './targets';
+
+export interface TextSample {
+  // CSS pixels
+  size: number;
+  weight: number;
+}
+
+export interface TextPreviewSettings {
+  enabled: boolean;
+  text: string;
+  samples: TextSample[];
+}
+
+export const DEFAULT_TEXT_PREVIEW: TextPreviewSettings = {
+  enabled: false,
+  text: 'The quick brown fox',
+  samples: [
+    { size: 12, weight: 400 },
+    { size: 16, weight: 400 },
+    { size: 24, weight: 700 },
+  ],
+};
+
+export const MAX_TEXT_SAMPLES = 5;
+
+export interface SampleResult {
+  label: string;
+  passes: boolean;
+}
+
+/**
+ * WCAG large text: at least 18pt (24px), or 14pt (about 18.67px) when bold.
+ */
+export const isLargeText = ({ size, weight }: TextSample): boolean =>
+  size >= 24 || (size >= 18.66 && weight >= 700);
+
+/**
+ * Grades a contrast value for one sample's typography. WCAG 2 switches between
+ * the normal and large text thresholds; APCA checks the sample against the
+ * minimum font size its lookup table allows for that Lc and weight.
+ */
+export const evaluateSample = (
+  sample: TextSample,
+  value: number,
+  algorithm: ContrastAlgorithmId
+): SampleResult => {
+  if (algorithm === 'wcag2') {
+    const profile = getTargetProfile(isLargeText(sample) ? 'large' : 'text', DEFAULT_CUSTOM_LEVELS);
+    const level = getContrastLevel(profile.levels.wcag2, value);
+    return { label: level?.label ?? 'Failed', passes: !!level };
+  }
+
+  // The lookup table only has entries for the nine standard weights
+  const weight = Math.min(900, Math.max(100, Math.round(sample.weight / 100) * 100));
+  const minimumSize = getApcaFontSize(value, weight);
+  if (minimumSize === null) return { label: 'Not for text', passes: false };
+  return sample.size >= minimumSize
+    ? { label: `Lc ${Math.round(Math.abs(value))}`, passes: true }
+    : { label: `Needs ${minimumSize}px`, passes: false };
+};
+
+export const sanitizeTextPreview = (value: unknown): TextPreviewSettings => {
+  if (!value || typeof value !== 'object') return DEFAULT_TEXT_PREVIEW;
+  const saved = value as Partial<TextPreviewSettings>;
+  const samples = Array.isArray(saved.samples)
+    ? saved.samples.filter((sample): sample is TextSample =>
+      typeof sample?.size === 'number' && typeof sample?.weight === 'number'
+    ).slice(0, MAX_TEXT_SAMPLES)
+    : DEFAULT_TEXT_PREVIEW.samples;
+
+  return {
+    enabled: saved.enabled === true,
+    text: typeof saved.text === 'string' ? saved.text : DEFAULT_TEXT_PREVIEW.text,
+    samples,
+  };
+};
@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { withIds } from './entries';
+import { ColorEntry, ColorPair } from './types';
+
+export interface GridState {
+  fg: ColorEntry[];
+  bg: ColorEntry[];
+  pairs?: ColorPair[];
+  // Theme names when entries carry per-theme values
+  themes?: string[];
+  // Rows and columns share one list
+  linked?: boolean;
+}
+
+interface HistoryState {
+  past: GridState[];
+  present: GridState;
+  future: GridState[];
+  // Consecutive updates with the same key inside the window merge into one step
+  lastKey?: string;
+  lastTime: number;
+}
+
+const HISTORY_STORAGE_PREFIX = 'contrast-grid-history:';
+const HISTORY_LIMIT = 50;
+const COALESCE_MS = 1000;
+
+const isSameState = (a: GridState, b: GridState): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// Every state that becomes the present has an id on each entry
+const withEntryIds = (state: GridState): GridState => {
+  const fg = withIds(state.fg);
+  // A linked grid may hold one array for both axes, which must get the same ids
+  const bg = state.bg === state.fg ? fg : withIds(state.bg);
+  return fg === state.fg && bg === state.bg ? state : { ...state, fg, bg };
+};
+
+const loadHistory = (gridId: string, grid: GridState): HistoryState => {
+  const present = withEntryIds(grid);
+  const empty = { past: [], present, future: [], lastTime: 0 };
+  const saved = localStorage.getItem(HISTORY_STORAGE_PREFIX + gridId);
+  if (!saved) return empty;
+
+  try {
+    const { past, present: savedPresent, future } = JSON.parse(saved);
+    // Stored steps only apply if they lead up to the grid as it was saved
+    if (!Array.isArray(past) || !Array.isArray(future) || !isSameState(savedPresent, grid)) {
+      return empty;
+    }
+    return { past, present, future, lastTime: 0 };
+  } catch (e) {
+    console.error('Error loading history:', e);
+    return empty;
+  }
+};
+
+export const clearHistory = (gridId: string) => {
+  localStorage.removeItem(HISTORY_STORAGE_PREFIX + gridId);
+};
+
+/**
+ * Undo/redo stack for a grid's foreground and background lists and its
+ * pairs, persisted per grid so it survives reloads.
+ */
+export const useGridHistory = (gridId: string, initial: GridState) => {
+  const [history, setHistory] = useState<HistoryState>(() => loadHistory(gridId, initial));
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(HISTORY_STORAGE_PREFIX + gridId, JSON.stringify({
+        past: history.past,
+        present: history.present,
+        future: history.future,
+      }));
+    } catch (e) {
+      console.error('Error saving history:', e);
+    }
+  }, [gridId, history]);
+
+  const update = (recipe: (present: GridState) => GridState, coalesceKey?: string) => {
+    setHistory(current => {
+      const next = recipe(current.present);
+      if (next === current.present) return current;
+
+      const now = Date.now();
+      const coalesce = coalesceKey !== undefined &&
+        coalesceKey === current.lastKey &&
+        now - current.lastTime < COALESCE_MS;
+
+      return {
+        past: coalesce ? current.past : [...current.past, current.present].slice(-HISTORY_LIMIT),
+        present: withEntryIds(next),
+        future: [],
+        lastKey: coalesceKey,
+        lastTime: now,
+      };
+    });
+  };
+
+  const undo = () => {
+    setHistory(current => {
+      if (current.past.length === 0) return current;
+      return {
+        past: current.past.slice(0, -1),
+        present: withEntryIds(current.past[current.past.length - 1]),
+        future: [current.present, ...current.future],
+        lastTime: 0,
+      };
+    });
+  };
+
+  const redo = () => {
+    setHistory(current => {
+      if (current.future.length === 0) return current;
+      return {
+        past: [...current.past, current.present],
+        present: withEntryIds(current.future[0]),
+        future: current.future.slice(1),
+        lastTime: 0,
+      };
+    });
+  };
+
+  // Replaces the whole stack, e.g. when switching to another grid
+  const load = (nextGridId: string, present: GridState) => {
+    setHistory(loadHistory(nextGridId, present));
+  };
+
+  return {
+    present: history.present,
+    update,
+    undo,
+    redo,
+    load,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -0,0 +1,131 @@
+import { RefObject, useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+// The rendered slice of one axis, with the space taken by the rest
+export interface AxisWindow {
+  start: number;
+  // One past the last rendered position
+  end: number;
+  before: number;
+  after: number;
+}
+
+export interface GridWindow {
+  rows: AxisWindow;
+  columns: AxisWindow;
+}
+
+interface GridSizes {
+  row: number;
+  column: number;
+  // The sticky header row and row header column, which cover part of the viewport
+  header: number;
+  rowHeader: number;
+}
+
+// Extra rows and columns rendered past each edge, so fast scrolling shows no gaps
+const OVERSCAN = 3;
+
+// Estimates until the first cells are measured
+const DEFAULT_SIZES: GridSizes = { row: 120, column: 140, header: 160, rowHeader: 200 };
+
+const getAxisWindow = (count: number, size: number, offset: number, viewport: number, header: number): AxisWindow => {
+  const first = Math.floor(offset / size);
+  const last = Math.ceil((offset + viewport - header) / size);
+  const start = Math.max(0, Math.min(count, first - OVERSCAN));
+  const end = Math.max(start, Math.min(count, last + OVERSCAN));
+  return { start, end, before: start * size, after: (count - end) * size };
+};
+
+const isSameAxis = (a: AxisWindow, b: AxisWindow): boolean =>
+  a.start === b.start && a.end === b.end && a.before === b.before && a.after === b.after;
+
+const average = (elements: NodeListOf<HTMLElement>, measure: (element: HTMLElement) => number): number | undefined =>
+  elements.length > 0
+    ? Array.from(elements).reduce((total, element) => total + measure(element), 0) / elements.length
+    : undefined;
+
+/**
+ * Which rows and columns of a large table to render inside the scrolling
+ * `ref` element. Sizes are averaged from the rendered rows (`data-grid-row`),
+ * column headers (`data-grid-column`), the header row and the corner cell
+ * (`data-grid-corner`), so cells may grow with their content. The window
+ * only changes when a different slice becomes visible, not on every scroll
+ * event.
+ */
+export const useGridWindow = (ref: RefObject<HTMLElement>, rowCount: number, columnCount: number) => {
+  const sizes = useRef(DEFAULT_SIZES);
+
+  const compute = useCallback((): GridWindow => {
+    const container = ref.current;
+    const { row, column, header, rowHeader } = sizes.current;
+    return {
+      rows: getAxisWindow(rowCount, row, container?.scrollTop ?? 0, container?.clientHeight || window.innerHeight, header),
+      columns: getAxisWindow(columnCount, column, container?.scrollLeft ?? 0, container?.clientWidth || window.innerWidth, rowHeader),
+    };
+  }, [ref, rowCount, columnCount]);
+
+  const [gridWindow, setGridWindow] = useState<GridWindow>(compute);
+
+  const update = useCallback(() => {
+    const next = compute();
+    setGridWindow(current =>
+      isSameAxis(current.rows, next.rows) && isSameAxis(current.columns, next.columns) ? current : next
+    );
+  }, [compute]);
+
+  useEffect(() => {
+    window.addEventListener('resize', update);
+    return () => window.removeEventListener('resize', update);
+  }, [update]);
+
+  // Re-measure after every render, before paint, and follow changed row or column counts
+  useLayoutEffect(() => {
+    const container = ref.current;
+    if (!container) return;
+    const measured: GridSizes = {
+      row: average(container.querySelectorAll<HTMLElement>('[data-grid-row]'), element => element.offsetHeight) ?? sizes.current.row,
+      column: average(container.querySelectorAll<HTMLElement>('[data-grid-column]'), element => element.offsetWidth) ?? sizes.current.column,
+      header: container.querySelector<HTMLElement>('thead')?.offsetHeight ?? sizes.current.header,
+      rowHeader: container.querySelector<HTMLElement>('[data-grid-corner]')?.offsetWidth ?? sizes.current.rowHeader,
+    };
+    const changed = (Object.keys(measured) as (keyof GridSizes)[]).some(
+      key => measured[key] > 0 && Math.abs(measured[key] - sizes.current[key]) > 1
+    );
+    if (changed) {
+      sizes.current = {
+        row: measured.row || sizes.current.row,
+        column: measured.column || sizes.current.column,
+        header: measured.header,
+        rowHeader: measured.rowHeader,
+      };
+    }
+    update();
+  });
+
+  // Scrolls just enough for a cell to clear the sticky headers, and renders it right away
+  const scrollToCell = useCallback((row: number, column: number) => {
+    const container = ref.current;
+    if (!container) return;
+    const { row: rowSize, column: columnSize, header, rowHeader } = sizes.current;
+
+    const top = row * rowSize;
+    const visibleHeight = container.clientHeight - header;
+    if (top < container.scrollTop) {
+      container.scrollTop = top;
+    } else if (top + rowSize > container.scrollTop + visibleHeight) {
+      container.scrollTop = top + rowSize - visibleHeight;
+    }
+
+    const left = column * columnSize;
+    const visibleWidth = container.clientWidth - rowHeader;
+    if (left < container.scrollLeft) {
+      container.scrollLeft = left;
+    } else if (left + columnSize > container.scrollLeft + visibleWidth) {
+      container.scrollLeft = left + columnSize - visibleWidth;
+    }
+    update();
+  }, [ref, update]);
+
+  // onScroll goes on the scrolling element, which may mount later than the hook
+  return { ...gridWindow, onScroll: update, scrollToCell };
+};